@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, canAccessInstallation, unauthorizedResponse, forbiddenResponse } from '@/lib/session';
+import { getInstallationById, getDecryptedToken, getAccountById } from '@/lib/storage';
+import { VercelAPIClient } from '@/lib/vercel-api';
+import { getBootstrapChecklist, runBootstrap } from '@/lib/bootstrap';
+import { z } from 'zod';
+import { getRequestLogger } from '@/lib/logger';
+
+/**
+ * @swagger
+ * /api/bootstrap:
+ *   get:
+ *     summary: Get bootstrap checklist
+ *     description: Returns the result of the post-deploy migrate, seed-default and generate-key steps for an installation
+ *     security:
+ *       - sessionCookie: []
+ *     parameters:
+ *       - in: query
+ *         name: configurationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vercel integration configuration ID
+ *     responses:
+ *       200:
+ *         description: Bootstrap checklist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BootstrapResponse'
+ *       400:
+ *         description: Missing configuration ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Session missing or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Session does not grant access to this installation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Installation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   post:
+ *     summary: Run bootstrap steps
+ *     description: Runs the pending or failed post-deploy steps in order once the deployment is READY. Succeeded steps are skipped, so this is also the retry action.
+ *     security:
+ *       - sessionCookie: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [configurationId]
+ *             properties:
+ *               configurationId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Bootstrap checklist after running
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BootstrapResponse'
+ *       400:
+ *         description: Invalid request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Session missing or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Session does not grant access to this installation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Installation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Deployment is not ready yet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Bootstrap failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+const BootstrapSchema = z.object({
+  configurationId: z.string(),
+});
+
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return unauthorizedResponse();
+  }
+
+  const configurationId = request.nextUrl.searchParams.get('configurationId');
+  if (!configurationId) {
+    return NextResponse.json({ error: 'Missing configuration ID' }, { status: 400 });
+  }
+
+  const installation = await getInstallationById(configurationId);
+  if (!installation) {
+    return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+  }
+
+  if (!(await canAccessInstallation(session, installation))) {
+    return forbiddenResponse();
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: { steps: getBootstrapChecklist(installation) },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const log = getRequestLogger(request);
+
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const { configurationId } = BootstrapSchema.parse(body);
+
+    const installation = await getInstallationById(configurationId);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    if (!(await canAccessInstallation(session, installation))) {
+      return forbiddenResponse();
+    }
+
+    if (!installation.deployment_id || !installation.deployment_url) {
+      return NextResponse.json({ error: 'Installation has not been deployed' }, { status: 409 });
+    }
+
+    const account = await getAccountById(installation.account_id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    const accessToken = await getDecryptedToken(installation.account_id);
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Access token not found' }, { status: 404 });
+    }
+
+    // The assistant server endpoints only exist once the deployment is live
+    const vercelClient = new VercelAPIClient(accessToken, account.vercel_team_id || undefined, log);
+    const deployment = await vercelClient.getDeployment(installation.deployment_id);
+    if (deployment.readyState !== 'READY') {
+      return NextResponse.json(
+        { error: 'Deployment is not ready', state: deployment.readyState },
+        { status: 409 }
+      );
+    }
+
+    const steps = await runBootstrap(installation, log);
+
+    return NextResponse.json({
+      success: true,
+      data: { steps: getBootstrapChecklist({ ...installation, bootstrap_steps: steps }) },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    log.error('Bootstrap failed', { error });
+    return NextResponse.json(
+      { error: 'Bootstrap failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getInstallationById, getDecryptedToken, updateInstallation, getAccountById } from '@/lib/storage';
+import { getSession, canAccessInstallation, unauthorizedResponse, forbiddenResponse } from '@/lib/session';
+import { getInstallationById, getDecryptedToken, updateInstallation, getAccountById, createDeployment } from '@/lib/storage';
 import { VercelAPIClient } from '@/lib/vercel-api';
-import { z } from 'zod';
+import { getAssistantRepoSource } from '@/lib/git-source';
+import { encrypt } from '@/lib/encryption';
+import { buildAssistantEnvVariables, ROTATABLE_SECRETS } from '@/lib/assistant-env';
+import { DeploymentSchema } from '@/lib/schemas';
+import { generateAdminPassword } from '@/lib/secrets';
 import { v4 as uuidv4 } from 'uuid';
+import { getRequestLogger } from '@/lib/logger';
+import { AppError } from '@/lib/errors';
+import { toAppError, errorResponse } from '@/lib/api-errors';
+import { DeploymentResult } from '@/types';
 
 /**
  * @swagger
@@ -10,6 +19,8 @@ import { v4 as uuidv4 } from 'uuid';
  *   post:
  *     summary: Deploy assistant server
  *     description: Deploys assistant server to user's Vercel account with provided credentials
+ *     security:
+ *       - sessionCookie: []
  *     requestBody:
  *       required: true
  *       content:
@@ -24,165 +35,187 @@ import { v4 as uuidv4 } from 'uuid';
  *             schema:
  *               $ref: '#/components/schemas/DeploymentResponse'
  *       400:
- *         description: Invalid request
+ *         description: VALIDATION_FAILED - invalid request body
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Session missing or expired, or TOKEN_REVOKED when the Vercel token is no longer valid
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Session does not grant access to this installation, or MISSING_SCOPE when the integration lacks a Vercel permission
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       404:
- *         description: Installation not found
+ *         description: INSTALLATION_NOT_FOUND or PROJECT_NOT_FOUND
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: ENV_CONFLICT - an existing environment variable conflicts with one the integration writes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: GIT_REPO_INACCESSIBLE - Vercel cannot access the Assistant Server repository
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: RATE_LIMITED - Vercel rate limit still exceeded after retries
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
- *         description: Deployment failed
+ *         description: DEPLOYMENT_FAILED - unexpected deployment failure
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       502:
+ *         description: VERCEL_UNAVAILABLE - Vercel API unreachable or returned a server error
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-const DeploymentSchema = z.object({
-  configurationId: z.string(), // Only use Vercel's configuration ID
-  config: z.object({
-    supabase: z.object({
-      url: z.string().url(),
-      serviceRoleKey: z.string().min(1),
-    }),
-    database: z.object({
-      host: z.string().min(1),
-      name: z.string().min(1),
-      user: z.string().min(1),
-      password: z.string().min(1),
-    }),
-    openai: z.object({
-      apiKey: z.string().min(1),
-    }),
-  }),
-  projectName: z.string().optional(),
-});
-
 export async function POST(request: NextRequest) {
+  const log = getRequestLogger(request);
+  let pendingInstallationUuid: string | null = null; // Set while the installation is marked pending
+
   try {
+    const session = getSession(request);
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
-    const { configurationId, config, projectName } = DeploymentSchema.parse(body);
+    const { configurationId, config, projectId, createProject, projectName } = DeploymentSchema.parse(body);
 
     // Get installation using Vercel's configuration ID
     const installation = await getInstallationById(configurationId);
     
     if (!installation) {
-      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+      throw new AppError('INSTALLATION_NOT_FOUND', 'Installation not found');
+    }
+
+    if (!(await canAccessInstallation(session, installation))) {
+      return forbiddenResponse();
     }
 
     // Get account (to get team_id)
     const account = await getAccountById(installation.account_id);
     if (!account) {
-      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+      throw new AppError('INSTALLATION_NOT_FOUND', 'Account not found for this installation');
     }
 
     // Get decrypted token
     const accessToken = await getDecryptedToken(installation.account_id);
     if (!accessToken) {
-      return NextResponse.json({ error: 'Access token not found' }, { status: 404 });
+      // Token is cleared on uninstall, so the integration has to be installed again
+      throw new AppError('TOKEN_REVOKED', 'No Vercel access token is stored for this account');
+    }
+
+    // Initialize Vercel API client with team_id if exists
+    const vercelClient = new VercelAPIClient(accessToken, account.vercel_team_id || undefined, log);
+    const repoSource = getAssistantRepoSource();
+
+    // Resolve the target project: only ones the configuration grants access to, or a new one
+    let project: { id: string; name: string };
+    if (createProject) {
+      const created = await vercelClient.importGitRepo(repoSource, projectName || 'assistant-server');
+      project = { id: created.id, name: created.name };
+    } else {
+      const projects = await vercelClient.getConfigurationProjects(installation.installation_id);
+      const selected = projects.find(p => p.id === projectId);
+      if (!selected) {
+        throw new AppError('PROJECT_NOT_FOUND', 'Project is not part of this integration configuration');
+      }
+      project = { id: selected.id, name: selected.name };
     }
 
     // Update status to installing
     await updateInstallation(installation.uuid, { status: 'pending' });
-
-    // Initialize Vercel API client with team_id if exists
-    const vercelClient = new VercelAPIClient(accessToken, account.vercel_team_id || undefined);
+    pendingInstallationUuid = installation.uuid;
 
     // Prepare environment variables
     const migrationSecretKey = uuidv4(); // Generate random v4 UUID for migration secret key
     const jwtSecret = uuidv4(); // Generate unique v4 UUID for JWT secret
+    const adminPassword = generateAdminPassword(); // Returned once in the response, never stored or logged
     
-    const envVariables = {
-      // User-provided credentials
-      SUPABASE_URL: config.supabase.url,
-      SUPABASE_SERVICE_KEY: config.supabase.serviceRoleKey,
-      SUPABASE_DB_HOST: config.database.host,
-      SUPABASE_DB_NAME: config.database.name,
-      SUPABASE_DB_USER: config.database.user,
-      SUPABASE_DB_PASSWORD: config.database.password,
-      OPENAI_API_KEY: config.openai.apiKey,
-      
-      // Default AI configuration
-      AI_MODEL: 'gpt-4o-mini',
-      AI_TEMPERATURE: '0.7',
-      AI_MAX_TOKENS: '1000',
-      
-      // Organization settings
-      ORGANIZATION_NAME: 'Vezlo',
-      ASSISTANT_NAME: 'Vezlo Assistant',
-      
-      // Migration secret key
-      MIGRATION_SECRET_KEY: migrationSecretKey,
-      
-      // Authentication & Admin settings
-      JWT_SECRET: jwtSecret,
-      DEFAULT_ADMIN_EMAIL: 'admin@vezlo.org',
-      DEFAULT_ADMIN_PASSWORD: 'admin123',
-    };
+    const envVariables = buildAssistantEnvVariables(config, { migrationSecretKey, jwtSecret, adminPassword });
 
-    // Deploy from GitHub using integration configuration
-    const defaultRepo = process.env.ASSISTANT_SERVER_REPO || 'your-org/assistant-server';
-    const deployment = await vercelClient.deployFromGitHub({
-      configurationId: installation.installation_id, // This is the integration configuration ID
-      repo: defaultRepo,
+    // Deploy the assistant server repository to the selected project
+    const deployment = await vercelClient.deployFromGitRepo({
+      projectId: project.id,
+      projectName: project.name,
+      source: repoSource,
       branch: 'main',
       envVariables,
       target: 'production', // Deploy to production by default
     });
 
     // Update installation with deployment info
+    const deployedAt = new Date().toISOString();
     await updateInstallation(installation.uuid, {
       vercel_project_id: deployment.project.id,
       vercel_project_name: deployment.project.name,
       deployment_url: deployment.deployment.url,
+      deployment_id: deployment.deployment.id,
+      migration_secret_key: encrypt(migrationSecretKey), // Needed later to run the bootstrap steps
+      bootstrap_steps: {},
+      // Every secret is new on a fresh deploy
+      secrets_rotated_at: Object.fromEntries(ROTATABLE_SECRETS.map(key => [key, deployedAt])),
       status: 'installed',
     });
+    pendingInstallationUuid = null;
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        deploymentId: deployment.deployment.id,
-        deploymentUrl: deployment.deployment.url,
-        projectName: deployment.project.name,
-        migrationSecretKey: migrationSecretKey, // Include migration secret key in response
-      },
-    });
+    // Keep a history entry; env var key names only, never values. The deployment is already live
+    // and the admin password is only returned here, so a failed write must not fail the request.
+    await createDeployment({
+      installation_id: installation.id,
+      vercel_deployment_id: deployment.deployment.id,
+      git_ref: 'refs/heads/main',
+      target: 'production',
+      env_var_keys: Object.keys(envVariables),
+      state: deployment.deployment.readyState || 'QUEUED',
+    }).catch(historyError =>
+      log.error('Failed to record deployment history', { deploymentId: deployment.deployment.id, error: historyError })
+    );
+
+    const result: DeploymentResult = {
+      deploymentId: deployment.deployment.id,
+      deploymentUrl: deployment.deployment.url,
+      projectName: deployment.project.name,
+      envVariables: deployment.envVariables,
+      adminEmail: config.admin.email,
+      adminPassword,
+    };
+    return NextResponse.json({ success: true, data: result });
   } catch (error) {
-    console.error('🚨 Deployment Error:');
-    
-    if (error instanceof z.ZodError) {
-      console.error('Validation error:', error.errors);
-      return NextResponse.json(
-        { error: 'Invalid request', details: error.errors },
-        { status: 400 }
-      );
+    const appError = toAppError(error);
+    if (appError.code === 'VALIDATION_FAILED') {
+      log.warn('Deployment request invalid', { issues: appError.details });
+    } else {
+      log.error('Deployment failed', { code: appError.code, error });
     }
 
-    // Handle Axios errors (Vercel API errors)
-    if (error && typeof error === 'object' && 'response' in error) {
-      const axiosError = error as any;
-      console.error('Vercel API Error:', {
-        status: axiosError.response?.status,
-        statusText: axiosError.response?.statusText,
-        error: axiosError.response?.data?.error,
-        message: axiosError.response?.data?.message || axiosError.response?.data?.error_description
-      });
-      
-      const vercelError = axiosError.response?.data?.error || axiosError.response?.data?.message || 'Vercel API error';
-      return NextResponse.json(
-        { error: 'Deployment failed', message: vercelError },
-        { status: 500 }
+    // Show the failure on the dashboard instead of leaving the installation pending ("Not configured")
+    if (pendingInstallationUuid) {
+      await updateInstallation(pendingInstallationUuid, { status: 'failed' }).catch(updateError =>
+        log.error('Failed to mark installation as failed', { error: updateError })
       );
     }
-
-    console.error('Unknown error:', error);
-    return NextResponse.json(
-      { error: 'Deployment failed', message: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(appError);
   }
 }
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, canAccessInstallation, unauthorizedResponse, forbiddenResponse } from '@/lib/session';
+import { getInstallationById, getDecryptedToken, getAccountById, updateDeploymentByVercelId } from '@/lib/storage';
+import { VercelAPIClient, isVercelNotFound } from '@/lib/vercel-api';
+import { DeploymentStatus, VercelDeployment } from '@/types';
+import { getRequestLogger } from '@/lib/logger';
+
+/**
+ * @swagger
+ * /api/deployments/{id}/status:
+ *   get:
+ *     summary: Get deployment status
+ *     description: Returns the current Vercel state of a deployment belonging to the caller's installation
+ *     security:
+ *       - sessionCookie: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vercel deployment ID
+ *       - in: query
+ *         name: configurationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vercel integration configuration ID
+ *     responses:
+ *       200:
+ *         description: Deployment status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeploymentStatusResponse'
+ *       400:
+ *         description: Missing configuration ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Session missing or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Session does not grant access to this installation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Installation or deployment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Failed to fetch deployment status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const log = getRequestLogger(request);
+
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const configurationId = request.nextUrl.searchParams.get('configurationId');
+
+    if (!configurationId) {
+      return NextResponse.json({ error: 'Missing configuration ID' }, { status: 400 });
+    }
+
+    const installation = await getInstallationById(configurationId);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    if (!(await canAccessInstallation(session, installation))) {
+      return forbiddenResponse();
+    }
+
+    const account = await getAccountById(installation.account_id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    const accessToken = await getDecryptedToken(installation.account_id);
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Access token not found' }, { status: 404 });
+    }
+
+    const vercelClient = new VercelAPIClient(accessToken, account.vercel_team_id || undefined, log);
+    const deployment = await vercelClient.getDeployment(id);
+
+    // Only expose deployments of the project this installation deployed to
+    if (!installation.vercel_project_id || deployment.projectId !== installation.vercel_project_id) {
+      return NextResponse.json({ error: 'Deployment not found' }, { status: 404 });
+    }
+
+    const status = toDeploymentStatus(deployment);
+
+    // Keep the history entry in sync, including the failure reason webhooks don't carry
+    await updateDeploymentByVercelId(deployment.id, {
+      state: status.state,
+      error_message: status.errorMessage || null,
+      ready_at: status.readyAt ? new Date(status.readyAt).toISOString() : null,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    log.error('Deployment status failed', { error });
+
+    if (isVercelNotFound(error)) {
+      return NextResponse.json({ error: 'Deployment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch deployment status' },
+      { status: 500 }
+    );
+  }
+}
+
+function toDeploymentStatus(deployment: VercelDeployment): DeploymentStatus {
+  // Build duration runs from build start until ready, or until now while still building
+  let buildDurationMs: number | undefined;
+  if (deployment.buildingAt) {
+    const end = deployment.ready || (deployment.readyState === 'BUILDING' ? Date.now() : undefined);
+    buildDurationMs = end ? end - deployment.buildingAt : undefined;
+  }
+
+  return {
+    id: deployment.id,
+    state: deployment.readyState,
+    url: deployment.url,
+    createdAt: deployment.createdAt,
+    buildingAt: deployment.buildingAt,
+    readyAt: deployment.ready,
+    buildDurationMs,
+    errorCode: deployment.errorCode,
+    errorMessage: deployment.errorMessage,
+  };
+}
@@ -1,11 +1,15 @@
 import { NextResponse } from 'next/server';
+import { getMigrationStatus, isMigrationCheckEnabled } from '@/lib/migrations';
+import { getRequestLogger } from '@/lib/logger';
 
 /**
  * @swagger
  * /api/health:
  *   get:
  *     summary: Health check endpoint
- *     description: Returns the health status of the API
+ *     description: |
+ *       Returns the health status of the API. When `DATABASE_URL` is set, also checks that every
+ *       schema migration has been applied and none were modified afterwards.
  *     responses:
  *       200:
  *         description: Service is healthy
@@ -13,15 +17,42 @@ import { NextResponse } from 'next/server';
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/HealthResponse'
+ *       503:
+ *         description: Migrations are pending or modified, or the database could not be reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HealthResponse'
  */
-export async function GET() {
-  return NextResponse.json({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-  });
-}
+export async function GET(request: Request) {
+  const timestamp = new Date().toISOString();
 
+  if (!isMigrationCheckEnabled()) {
+    return NextResponse.json({ status: 'ok', timestamp, migrations: { checked: false } });
+  }
 
+  const log = getRequestLogger(request);
 
+  try {
+    const status = await getMigrationStatus();
+    const migrations = {
+      checked: true,
+      applied: status.applied.length,
+      pending: status.pending.map(migration => `${migration.version}_${migration.name}`),
+      changed: status.changed.map(migration => `${migration.version}_${migration.name}`),
+    };
 
+    if (!status.upToDate) {
+      log.warn('Database migrations are not up to date', migrations);
+      return NextResponse.json({ status: 'unhealthy', timestamp, migrations }, { status: 503 });
+    }
 
+    return NextResponse.json({ status: 'ok', timestamp, migrations });
+  } catch (error) {
+    log.error('Migration status check failed', { error });
+    return NextResponse.json(
+      { status: 'unhealthy', timestamp, migrations: { checked: true }, error: 'Database unreachable' },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, canAccessInstallation, unauthorizedResponse, forbiddenResponse } from '@/lib/session';
+import { getInstallationByUuid, listDeployments } from '@/lib/storage';
+import { z } from 'zod';
+import { getRequestLogger } from '@/lib/logger';
+
+/**
+ * @swagger
+ * /api/installations/{uuid}/deployments:
+ *   get:
+ *     summary: List deployment history
+ *     description: Returns the deployments of an installation, newest first
+ *     security:
+ *       - sessionCookie: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Installation UUID
+ *       - in: query
+ *         name: page
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Page of deployments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeploymentHistoryResponse'
+ *       400:
+ *         description: Invalid pagination parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Session missing or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Session does not grant access to this installation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Installation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+const PaginationSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ uuid: string }> }
+) {
+  const log = getRequestLogger(request);
+
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    const { uuid } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const { page, limit } = PaginationSchema.parse({
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    });
+
+    const installation = await getInstallationByUuid(uuid);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    if (!(await canAccessInstallation(session, installation))) {
+      return forbiddenResponse();
+    }
+
+    const { deployments, total } = await listDeployments(installation.id, {
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        deployments: deployments.map(({ id, installation_id, ...deployment }) => deployment),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    log.error('List deployments failed', { error });
+    return NextResponse.json(
+      { error: 'Failed to list deployments' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, canAccessInstallation, unauthorizedResponse, forbiddenResponse } from '@/lib/session';
+import { getInstallationByUuid, getDecryptedToken, updateInstallation, getAccountById, createDeployment } from '@/lib/storage';
+import { VercelAPIClient } from '@/lib/vercel-api';
+import { getAssistantRepoSource } from '@/lib/git-source';
+import { buildAssistantEnvUpdates, ROTATABLE_SECRETS } from '@/lib/assistant-env';
+import { RedeploySchema } from '@/lib/schemas';
+import { getRequestLogger } from '@/lib/logger';
+import { AppError } from '@/lib/errors';
+import { toAppError, errorResponse } from '@/lib/api-errors';
+
+/**
+ * @swagger
+ * /api/installations/{uuid}/redeploy:
+ *   post:
+ *     summary: Redeploy an existing installation
+ *     description: Updates only the env vars affected by a partial config update on the installation's existing project and starts a fresh deployment
+ *     security:
+ *       - sessionCookie: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Installation UUID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RedeployRequest'
+ *     responses:
+ *       200:
+ *         description: Redeployment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeploymentResponse'
+ *       400:
+ *         description: VALIDATION_FAILED - invalid request body
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Session missing or expired, or TOKEN_REVOKED when the Vercel token is no longer valid
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Session does not grant access to this installation, or MISSING_SCOPE when the integration lacks a Vercel permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: INSTALLATION_NOT_FOUND or PROJECT_NOT_FOUND
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: ENV_CONFLICT - an existing environment variable conflicts with one the integration writes; or the installation has not been deployed yet (no code)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: GIT_REPO_INACCESSIBLE - Vercel cannot access the Assistant Server repository
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: RATE_LIMITED - Vercel rate limit still exceeded after retries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: DEPLOYMENT_FAILED - unexpected redeployment failure
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       502:
+ *         description: VERCEL_UNAVAILABLE - Vercel API unreachable or returned a server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ uuid: string }> }
+) {
+  const log = getRequestLogger(request);
+
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    const { uuid } = await params;
+    // Only an empty body means "no options"; malformed JSON is a validation error
+    const rawBody = await request.text();
+    const body = rawBody.trim() ? JSON.parse(rawBody) : {};
+    const { config = {}, branch = 'main' } = RedeploySchema.parse(body);
+
+    const installation = await getInstallationByUuid(uuid);
+    if (!installation) {
+      throw new AppError('INSTALLATION_NOT_FOUND', 'Installation not found');
+    }
+
+    if (!(await canAccessInstallation(session, installation))) {
+      return forbiddenResponse();
+    }
+
+    // Redeploys reuse the existing project; first-time setup goes through /api/deploy
+    if (
+      !installation.vercel_project_id ||
+      !installation.vercel_project_name ||
+      (installation.status !== 'installed' && installation.status !== 'failed')
+    ) {
+      return NextResponse.json({ error: 'Installation has not been deployed' }, { status: 409 });
+    }
+
+    const account = await getAccountById(installation.account_id);
+    if (!account) {
+      throw new AppError('INSTALLATION_NOT_FOUND', 'Account not found for this installation');
+    }
+
+    const accessToken = await getDecryptedToken(installation.account_id);
+    if (!accessToken) {
+      // Token is cleared on uninstall, so the integration has to be installed again
+      throw new AppError('TOKEN_REVOKED', 'No Vercel access token is stored for this account');
+    }
+
+    const vercelClient = new VercelAPIClient(accessToken, account.vercel_team_id || undefined, log);
+    const repoSource = getAssistantRepoSource();
+
+    const envUpdates = buildAssistantEnvUpdates(config);
+    const deployment = await vercelClient.deployFromGitRepo({
+      projectId: installation.vercel_project_id,
+      projectName: installation.vercel_project_name,
+      source: repoSource,
+      branch,
+      envVariables: envUpdates,
+      target: 'production',
+    });
+
+    // A new OPENAI_API_KEY or SUPABASE_SERVICE_KEY is a rotation like one made through rotate-secrets
+    const { added, changed } = deployment.envVariables;
+    const rotated = ROTATABLE_SECRETS.filter(key => added.includes(key) || changed.includes(key));
+    const rotatedAt = new Date().toISOString();
+
+    await updateInstallation(installation.uuid, {
+      deployment_url: deployment.deployment.url,
+      deployment_id: deployment.deployment.id,
+      ...(rotated.length > 0 && {
+        secrets_rotated_at: {
+          ...installation.secrets_rotated_at,
+          ...Object.fromEntries(rotated.map(key => [key, rotatedAt])),
+        },
+      }),
+      status: 'installed',
+    });
+
+    // Keep a history entry; env var key names only, never values. The deployment has started,
+    // so a failed write is logged rather than reported as a failed redeploy.
+    await createDeployment({
+      installation_id: installation.id,
+      vercel_deployment_id: deployment.deployment.id,
+      git_ref: `refs/heads/${branch}`,
+      target: 'production',
+      env_var_keys: Object.keys(envUpdates),
+      state: deployment.deployment.readyState || 'QUEUED',
+    }).catch(historyError =>
+      log.error('Failed to record deployment history', { deploymentId: deployment.deployment.id, error: historyError })
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        deploymentId: deployment.deployment.id,
+        deploymentUrl: deployment.deployment.url,
+        projectName: deployment.project.name,
+        envVariables: deployment.envVariables,
+      },
+    });
+  } catch (error) {
+    const appError = toAppError(error);
+    if (appError.code === 'VALIDATION_FAILED') {
+      log.warn('Redeploy request invalid', { issues: appError.details });
+    } else {
+      log.error('Redeploy failed', { code: appError.code, error });
+    }
+    return errorResponse(appError);
+  }
+}
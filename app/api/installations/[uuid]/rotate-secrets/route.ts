@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, canAccessInstallation, unauthorizedResponse, forbiddenResponse } from '@/lib/session';
+import { getInstallationByUuid, getDecryptedToken, updateInstallation, getAccountById, createDeployment } from '@/lib/storage';
+import { VercelAPIClient } from '@/lib/vercel-api';
+import { getAssistantRepoSource } from '@/lib/git-source';
+import { encrypt } from '@/lib/encryption';
+import { RotateSecretsSchema } from '@/lib/schemas';
+import { v4 as uuidv4 } from 'uuid';
+import { getRequestLogger } from '@/lib/logger';
+import { AppError } from '@/lib/errors';
+import { toAppError, errorResponse } from '@/lib/api-errors';
+import { RotatableSecret } from '@/types';
+
+/**
+ * @swagger
+ * /api/installations/{uuid}/rotate-secrets:
+ *   post:
+ *     summary: Rotate secrets of a deployed assistant server
+ *     description: |
+ *       Generates new values for JWT_SECRET and MIGRATION_SECRET_KEY, or sets the given replacements for any of
+ *       JWT_SECRET, MIGRATION_SECRET_KEY, OPENAI_API_KEY and SUPABASE_SERVICE_KEY. Only those env vars are updated
+ *       on the project, then a redeploy starts so they take effect. Values are never returned; the time of each
+ *       rotation is recorded on the installation.
+ *     security:
+ *       - sessionCookie: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Installation UUID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RotateSecretsRequest'
+ *     responses:
+ *       200:
+ *         description: Secrets updated and redeployment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RotateSecretsResponse'
+ *       400:
+ *         description: VALIDATION_FAILED - nothing to rotate, an unknown secret, or a secret both generated and replaced
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Session missing or expired, or TOKEN_REVOKED when the Vercel token is no longer valid
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Session does not grant access to this installation, or MISSING_SCOPE when the integration lacks a Vercel permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: INSTALLATION_NOT_FOUND or PROJECT_NOT_FOUND
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: ENV_CONFLICT - an existing environment variable conflicts with one being rotated; or the installation has not been deployed yet (no code)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: GIT_REPO_INACCESSIBLE - Vercel cannot access the Assistant Server repository
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: RATE_LIMITED - Vercel rate limit still exceeded after retries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: DEPLOYMENT_FAILED - unexpected failure
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       502:
+ *         description: VERCEL_UNAVAILABLE - Vercel API unreachable or returned a server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ uuid: string }> }
+) {
+  const log = getRequestLogger(request);
+
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    const { uuid } = await params;
+    // Only an empty body means "no options"; malformed JSON is a validation error
+    const rawBody = await request.text();
+    const body = rawBody.trim() ? JSON.parse(rawBody) : {};
+    const { generate = [], values = {}, branch = 'main' } = RotateSecretsSchema.parse(body);
+
+    const installation = await getInstallationByUuid(uuid);
+    if (!installation) {
+      throw new AppError('INSTALLATION_NOT_FOUND', 'Installation not found');
+    }
+
+    if (!(await canAccessInstallation(session, installation))) {
+      return forbiddenResponse();
+    }
+
+    if (
+      !installation.vercel_project_id ||
+      !installation.vercel_project_name ||
+      (installation.status !== 'installed' && installation.status !== 'failed')
+    ) {
+      return NextResponse.json({ error: 'Installation has not been deployed' }, { status: 409 });
+    }
+
+    const account = await getAccountById(installation.account_id);
+    if (!account) {
+      throw new AppError('INSTALLATION_NOT_FOUND', 'Account not found for this installation');
+    }
+
+    const accessToken = await getDecryptedToken(installation.account_id);
+    if (!accessToken) {
+      // Token is cleared on uninstall, so the integration has to be installed again
+      throw new AppError('TOKEN_REVOKED', 'No Vercel access token is stored for this account');
+    }
+
+    const secrets: Partial<Record<RotatableSecret, string>> = { ...values };
+    for (const key of generate) {
+      secrets[key] = uuidv4();
+    }
+    const rotated = Object.keys(secrets) as RotatableSecret[];
+
+    const vercelClient = new VercelAPIClient(accessToken, account.vercel_team_id || undefined, log);
+    const envVariables = await vercelClient.setEnvironmentVariables(
+      installation.vercel_project_id,
+      secrets as Record<string, string>
+    );
+
+    // Record the rotation as soon as the project has the new values, so the stored migration key
+    // matches the project even if starting the deployment fails
+    const rotatedAt = new Date().toISOString();
+    await updateInstallation(installation.uuid, {
+      ...(secrets.MIGRATION_SECRET_KEY && { migration_secret_key: encrypt(secrets.MIGRATION_SECRET_KEY) }),
+      secrets_rotated_at: {
+        ...installation.secrets_rotated_at,
+        ...Object.fromEntries(rotated.map(key => [key, rotatedAt])),
+      },
+    });
+    log.info('Secrets rotated', { installationUuid: installation.uuid, rotated });
+
+    const repoSource = getAssistantRepoSource();
+    const deployment = await vercelClient.deployFromGitRepo({
+      projectId: installation.vercel_project_id,
+      projectName: installation.vercel_project_name,
+      source: repoSource,
+      branch,
+      target: 'production',
+    });
+
+    await updateInstallation(installation.uuid, {
+      deployment_url: deployment.deployment.url,
+      deployment_id: deployment.deployment.id,
+      status: 'installed',
+    });
+
+    // Keep a history entry; env var key names only, never values. The deployment has started,
+    // so a failed write is logged rather than reported as a failed rotation.
+    await createDeployment({
+      installation_id: installation.id,
+      vercel_deployment_id: deployment.deployment.id,
+      git_ref: `refs/heads/${branch}`,
+      target: 'production',
+      env_var_keys: rotated,
+      state: deployment.deployment.readyState || 'QUEUED',
+    }).catch(historyError =>
+      log.error('Failed to record deployment history', { deploymentId: deployment.deployment.id, error: historyError })
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rotated,
+        rotatedAt,
+        deploymentId: deployment.deployment.id,
+        deploymentUrl: deployment.deployment.url,
+        projectName: deployment.project.name,
+        envVariables,
+      },
+    });
+  } catch (error) {
+    const appError = toAppError(error);
+    if (appError.code === 'VALIDATION_FAILED') {
+      log.warn('Secret rotation request invalid', { issues: appError.details });
+    } else {
+      log.error('Secret rotation failed', { code: appError.code, error });
+    }
+    return errorResponse(appError);
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, canAccessInstallation, unauthorizedResponse, forbiddenResponse } from '@/lib/session';
+import { getInstallationByUuid } from '@/lib/storage';
+import { summarizeInstallation } from '@/lib/installations';
+import { uninstallInstallation } from '@/lib/uninstall';
+import { getRequestLogger } from '@/lib/logger';
+
+/**
+ * @swagger
+ * /api/installations/{uuid}:
+ *   get:
+ *     summary: Get an installation
+ *     description: Returns the installation's status, project, live URL, setup steps and most recent deployment
+ *     security:
+ *       - sessionCookie: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Installation UUID
+ *     responses:
+ *       200:
+ *         description: Installation details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InstallationResponse'
+ *       401:
+ *         description: Session missing or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Session does not grant access to this installation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Installation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   delete:
+ *     summary: Uninstall an installation
+ *     description: Removes the integration configuration on Vercel, deletes the stored access token once no other installation uses it and marks the installation as uninstalled. Safe to call more than once.
+ *     security:
+ *       - sessionCookie: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Installation UUID
+ *       - in: query
+ *         name: removeEnvVars
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *         description: Also delete the environment variables the integration wrote to the Vercel project
+ *     responses:
+ *       200:
+ *         description: Installation uninstalled, or already uninstalled (alreadyUninstalled is true and nothing is removed)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UninstallResponse'
+ *       401:
+ *         description: Session missing or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Session does not grant access to this installation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Installation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Uninstall failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ uuid: string }> }
+) {
+  const log = getRequestLogger(request);
+
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    const { uuid } = await params;
+    const installation = await getInstallationByUuid(uuid);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    if (!(await canAccessInstallation(session, installation))) {
+      return forbiddenResponse();
+    }
+
+    return NextResponse.json({ success: true, data: await summarizeInstallation(installation) });
+  } catch (error) {
+    log.error('Get installation failed', { error });
+    return NextResponse.json(
+      { error: 'Failed to get installation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ uuid: string }> }
+) {
+  const log = getRequestLogger(request);
+
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    const { uuid } = await params;
+    const removeEnvVars = request.nextUrl.searchParams.get('removeEnvVars') === 'true';
+
+    const installation = await getInstallationByUuid(uuid);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    if (!(await canAccessInstallation(session, installation))) {
+      return forbiddenResponse();
+    }
+
+    const result = await uninstallInstallation(installation, {
+      removeEnvVars,
+      revokeIntegration: true,
+    }, log);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    log.error('Uninstall failed', { error });
+    return NextResponse.json(
+      { error: 'Uninstall failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
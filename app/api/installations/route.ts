@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, unauthorizedResponse } from '@/lib/session';
+import { getAccountsByVercelUserId, getInstallationsByAccountId } from '@/lib/storage';
+import { summarizeInstallation } from '@/lib/installations';
+import { getRequestLogger } from '@/lib/logger';
+
+/**
+ * @swagger
+ * /api/installations:
+ *   get:
+ *     summary: List installations
+ *     description: Returns every installation of the session's user, in the personal scope and in each team they installed into, with its status, project, live URL, setup steps and most recent deployment
+ *     security:
+ *       - sessionCookie: []
+ *     responses:
+ *       200:
+ *         description: Installations, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InstallationListResponse'
+ *       401:
+ *         description: Session missing or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Failed to list installations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function GET(request: NextRequest) {
+  const log = getRequestLogger(request);
+
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    // One account per scope (personal or team) the user installed into
+    const accounts = await getAccountsByVercelUserId(session.userId);
+    if (accounts.length === 0) {
+      return unauthorizedResponse();
+    }
+
+    const installations = (await Promise.all(accounts.map(account => getInstallationsByAccountId(account.id))))
+      .flat()
+      .sort((a, b) => a.id - b.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { installations: await Promise.all(installations.map(summarizeInstallation)) },
+    });
+  } catch (error) {
+    log.error('List installations failed', { error });
+    return NextResponse.json(
+      { error: 'Failed to list installations' },
+      { status: 500 }
+    );
+  }
+}
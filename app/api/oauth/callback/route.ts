@@ -1,13 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { VercelAPIClient } from '@/lib/vercel-api';
-import { createAccount, createInstallation } from '@/lib/storage';
+import { createAccount, createInstallation, getInstallationById, updateInstallation } from '@/lib/storage';
+import { setSessionCookie } from '@/lib/session';
+import { checkOAuthState, clearOAuthState } from '@/lib/oauth-state';
+import { getRequestLogger } from '@/lib/logger';
+
+const STATE_ERRORS = {
+  missing: {
+    status: 400,
+    message: 'The state parameter is missing. Start the installation from the Vercel Marketplace or /api/oauth/install.',
+  },
+  not_found: { status: 400, message: 'No OAuth state was issued to this browser or it has expired. Start the installation again.' },
+  expired: { status: 400, message: 'The OAuth state has expired. Start the installation again.' },
+  mismatch: { status: 403, message: 'The state parameter does not match the one issued to this browser.' },
+} as const;
 
 /**
  * @swagger
  * /api/oauth/callback:
  *   get:
  *     summary: OAuth callback handler
- *     description: Handles Vercel OAuth callback, exchanges code for token, creates account and installation
+ *     description: |
+ *       Handles Vercel OAuth callback, verifies the state issued by /api/oauth/install, exchanges code for token, creates account and installation.
+ *       Installs started by Vercel (Marketplace or dashboard) carry no state; they are accepted when the code belongs to the configurationId Vercel sends.
+ *       Repeating the install for an existing configuration refreshes its token instead of failing, then resumes:
+ *       installed installations go to their management page, anything else back to the configuration page.
  *     parameters:
  *       - in: query
  *         name: code
@@ -16,6 +33,18 @@ import { createAccount, createInstallation } from '@/lib/storage';
  *           type: string
  *         description: OAuth authorization code from Vercel
  *       - in: query
+ *         name: state
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Nonce issued by /api/oauth/install, must match the state cookie. Required unless configurationId is sent.
+ *       - in: query
+ *         name: configurationId
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Configuration created by a Vercel-started install; the code must belong to it
+ *       - in: query
  *         name: next
  *         required: false
  *         schema:
@@ -23,9 +52,15 @@ import { createAccount, createInstallation } from '@/lib/storage';
  *         description: URL to redirect to after completion
  *     responses:
  *       302:
- *         description: Redirects to configuration page
+ *         description: Redirects to the configuration page (or /installations/{uuid} when already installed, or the page a sign-in from /api/session/login came from) and sets the HttpOnly session cookie
  *       400:
- *         description: Missing authorization code
+ *         description: Missing authorization code, missing or expired state, or a code that does not belong to configurationId
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: State does not match the one issued to this browser
  *         content:
  *           application/json:
  *             schema:
@@ -38,6 +73,8 @@ import { createAccount, createInstallation } from '@/lib/storage';
  *               $ref: '#/components/schemas/Error'
  */
 export async function GET(request: NextRequest) {
+  const log = getRequestLogger(request);
+
   try {
     const searchParams = request.nextUrl.searchParams;
     const code = searchParams.get('code');
@@ -50,28 +87,85 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Installs started from the Vercel Marketplace or dashboard never pass through /api/oauth/install,
+    // so Vercel sends the configuration it created instead of our state
+    const state = searchParams.get('state');
+    const configurationId = searchParams.get('configurationId');
+    const startedByVercel = !state && Boolean(configurationId);
+
+    // Reject callbacks for flows started at /api/oauth/install in another browser
+    let returnTo: string | undefined;
+    if (!startedByVercel) {
+      const stateCheck = checkOAuthState(request, state);
+      if (!stateCheck.ok) {
+        const { status, message } = STATE_ERRORS[stateCheck.reason];
+        const response = NextResponse.json({ error: 'Invalid OAuth state', message }, { status });
+        clearOAuthState(response);
+        return response;
+      }
+      returnTo = stateCheck.returnTo; // Set when signing in again from /api/session/login
+    }
+
     // Exchange code for access token
-    const tokenData = await VercelAPIClient.exchangeOAuthCode(code);
+    const tokenData = await VercelAPIClient.exchangeOAuthCode(code, log);
+
+    if (startedByVercel && tokenData.installation_id !== configurationId) {
+      log.warn('Authorization code does not match configurationId', { configurationId });
+      return NextResponse.json(
+        { error: 'Invalid OAuth callback', message: 'The authorization code does not belong to this configuration.' },
+        { status: 400 }
+      );
+    }
 
-    // Store account and get UUID
+    // Store account and get UUID (replaces the token of an existing account for this scope)
     const account = await createAccount(tokenData);
 
-    // Create installation record
-    const installation = await createInstallation(
-      tokenData.installation_id,
-      account.id
-    );
+    // Repeated install of the same configuration: keep the installation and pick up where it left off
+    const existing = await getInstallationById(tokenData.installation_id);
+    const installation = existing
+      ? await updateInstallation(existing.uuid, {
+          account_id: account.id,
+          ...(existing.status === 'uninstalled' && { status: 'pending' }),
+        })
+      : await createInstallation(tokenData.installation_id, account.id);
+
+    if (!installation) {
+      throw new Error(`Installation ${tokenData.installation_id} disappeared during reinstall`);
+    }
 
-    // Redirect to configuration page with configurationId and next URL
-    const configUrl = new URL('/configure', process.env.NEXT_PUBLIC_APP_URL || request.url);
-    configUrl.searchParams.set('configurationId', tokenData.installation_id); // Use Vercel's configuration ID
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.url;
+    let redirectUrl: URL;
+    if (returnTo) {
+      redirectUrl = new URL(returnTo, appUrl);
+    } else if (installation.status === 'installed') {
+      redirectUrl = new URL(`/installations/${installation.uuid}`, appUrl);
+    } else {
+      // Redirect to configuration page with configurationId
+      redirectUrl = new URL('/configure', appUrl);
+      redirectUrl.searchParams.set('configurationId', tokenData.installation_id); // Use Vercel's configuration ID
+    }
     if (next) {
-      configUrl.searchParams.set('next', next);
+      redirectUrl.searchParams.set('next', next);
     }
 
-    return NextResponse.redirect(configUrl);
+    log.info(existing ? 'Installation reauthorized' : 'Installation authorized', {
+      accountUuid: account.uuid,
+      installationUuid: installation.uuid,
+      status: installation.status,
+    });
+
+    // Short-lived session so only this browser can act on the installation
+    const response = NextResponse.redirect(redirectUrl);
+    setSessionCookie(response, {
+      accountUuid: account.uuid,
+      installationUuid: installation.uuid,
+      userId: tokenData.user_id,
+    });
+    clearOAuthState(response);
+
+    return response;
   } catch (error) {
-    console.error('OAuth callback error:', error);
+    log.error('OAuth callback failed', { error });
     return NextResponse.json(
       { error: 'Failed to complete OAuth flow' },
       { status: 500 }
@@ -0,0 +1,15 @@
+import { redirectToVercelInstall } from '@/lib/oauth-state';
+
+/**
+ * @swagger
+ * /api/oauth/install:
+ *   get:
+ *     summary: Start the integration install
+ *     description: Generates the OAuth state, stores it in a short-lived HttpOnly cookie and redirects to the Vercel integration install page
+ *     responses:
+ *       302:
+ *         description: Redirects to Vercel with the state parameter
+ */
+export async function GET() {
+  return redirectToVercelInstall();
+}
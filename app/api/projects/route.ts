@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, canAccessInstallation, unauthorizedResponse, forbiddenResponse } from '@/lib/session';
+import { getInstallationById, getDecryptedToken, getAccountById } from '@/lib/storage';
+import { VercelAPIClient } from '@/lib/vercel-api';
+import { getRequestLogger } from '@/lib/logger';
+
+/**
+ * @swagger
+ * /api/projects:
+ *   get:
+ *     summary: List deployable projects
+ *     description: Lists the projects the integration configuration has access to, with their names and frameworks
+ *     security:
+ *       - sessionCookie: []
+ *     parameters:
+ *       - in: query
+ *         name: configurationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vercel integration configuration ID
+ *     responses:
+ *       200:
+ *         description: Projects available for deployment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectsResponse'
+ *       400:
+ *         description: Missing configuration ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Session missing or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Session does not grant access to this installation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Installation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Failed to list projects
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function GET(request: NextRequest) {
+  const log = getRequestLogger(request);
+
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    const configurationId = request.nextUrl.searchParams.get('configurationId');
+    if (!configurationId) {
+      return NextResponse.json({ error: 'Missing configuration ID' }, { status: 400 });
+    }
+
+    const installation = await getInstallationById(configurationId);
+    if (!installation) {
+      return NextResponse.json({ error: 'Installation not found' }, { status: 404 });
+    }
+
+    if (!(await canAccessInstallation(session, installation))) {
+      return forbiddenResponse();
+    }
+
+    const account = await getAccountById(installation.account_id);
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    const accessToken = await getDecryptedToken(installation.account_id);
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Access token not found' }, { status: 404 });
+    }
+
+    const vercelClient = new VercelAPIClient(accessToken, account.vercel_team_id || undefined, log);
+    const projects = await vercelClient.getConfigurationProjects(installation.installation_id);
+
+    return NextResponse.json({ success: true, data: { projects } });
+  } catch (error) {
+    log.error('List projects failed', { error });
+    return NextResponse.json(
+      { error: 'Failed to list projects', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
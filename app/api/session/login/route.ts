@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { redirectToVercelInstall, toReturnPath } from '@/lib/oauth-state';
+
+/**
+ * @swagger
+ * /api/session/login:
+ *   get:
+ *     summary: Sign in again
+ *     description: |
+ *       Renews an expired session by sending the user back through the Vercel OAuth flow.
+ *       After the callback sets a new session cookie, the user lands on returnTo.
+ *     parameters:
+ *       - in: query
+ *         name: returnTo
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Path on this app to return to, e.g. /installations. Other origins are ignored.
+ *     responses:
+ *       302:
+ *         description: Redirects to Vercel with the state parameter
+ */
+export async function GET(request: NextRequest) {
+  return redirectToVercelInstall(toReturnPath(request.nextUrl.searchParams.get('returnTo')));
+}
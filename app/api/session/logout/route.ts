@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/lib/session';
+
+/**
+ * @swagger
+ * /api/session/logout:
+ *   post:
+ *     summary: Log out
+ *     description: Clears the session cookie issued by the OAuth callback
+ *     responses:
+ *       200:
+ *         description: Session cleared
+ */
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, unauthorizedResponse } from '@/lib/session';
+import { runPreflightChecks } from '@/lib/preflight';
+import { ValidationSchema } from '@/lib/schemas';
+import { z } from 'zod';
+import { getRequestLogger } from '@/lib/logger';
+
+/**
+ * @swagger
+ * /api/validate:
+ *   post:
+ *     summary: Validate deployment credentials
+ *     description: Runs the deployment schema checks and then verifies the Supabase URL and service role key, the database connection and the OpenAI key before anything is deployed
+ *     security:
+ *       - sessionCookie: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [config]
+ *             properties:
+ *               config:
+ *                 $ref: '#/components/schemas/DeploymentRequest/properties/config'
+ *     responses:
+ *       200:
+ *         description: Check results per field
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationResponse'
+ *       400:
+ *         description: Invalid request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Session missing or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function POST(request: NextRequest) {
+  const log = getRequestLogger(request);
+
+  try {
+    const session = getSession(request);
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+    const { config } = ValidationSchema.parse(body);
+
+    const result = await runPreflightChecks(config);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      // Report schema failures per field so the form can show them inline
+      const fields: Record<string, { ok: boolean; message: string }> = {};
+      for (const issue of error.errors) {
+        const field = issue.path.slice(1).join('.');
+        fields[field] = { ok: false, message: issue.message };
+      }
+
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors, data: { valid: false, fields } },
+        { status: 400 }
+      );
+    }
+
+    log.error('Credential validation failed', { error });
+    return NextResponse.json(
+      { error: 'Validation failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyWebhookSignature } from '@/lib/webhooks';
+import { getInstallationById, getInstallationsByProjectId, updateInstallation, updateDeploymentByVercelId } from '@/lib/storage';
+import { runBootstrap } from '@/lib/bootstrap';
+import { uninstallInstallation } from '@/lib/uninstall';
+import { VercelWebhookEvent } from '@/types';
+import { getRequestLogger } from '@/lib/logger';
+import { WebhookEventSchema } from '@/lib/schemas';
+
+/**
+ * @swagger
+ * /api/webhooks/vercel:
+ *   post:
+ *     summary: Vercel integration webhook receiver
+ *     description: Verifies the x-vercel-signature header and updates installation status for configuration removal, project removal and deployment events
+ *     parameters:
+ *       - in: header
+ *         name: x-vercel-signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: HMAC-SHA1 of the raw request body, keyed with the integration client secret
+ *     responses:
+ *       200:
+ *         description: Event processed or ignored
+ *       400:
+ *         description: Invalid payload - not JSON, or missing id, type, createdAt or payload
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Invalid signature
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Event processing failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export async function POST(request: NextRequest) {
+  const log = getRequestLogger(request);
+
+  // Signature is computed over the raw body, so read it before parsing
+  const rawBody = await request.text();
+  const signature = request.headers.get('x-vercel-signature');
+
+  if (!verifyWebhookSignature(rawBody, signature)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  // A 5xx makes Vercel retry, so malformed events are rejected here rather than failing below
+  let event: VercelWebhookEvent;
+  try {
+    event = WebhookEventSchema.parse(JSON.parse(rawBody)) as VercelWebhookEvent;
+  } catch {
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  log.info('Webhook received', { type: event.type, id: event.id });
+
+  try {
+    const { payload } = event;
+
+    switch (event.type) {
+      case 'integration-configuration.removed': {
+        const configurationId = payload.configuration?.id;
+        const installation = configurationId ? await getInstallationById(configurationId) : null;
+        if (installation) {
+          // The configuration is already gone on Vercel, so its token can no longer touch the project
+          await uninstallInstallation(installation, {}, log);
+        }
+        break;
+      }
+
+      case 'project.removed': {
+        const projectId = payload.project?.id;
+        const installations = projectId ? await getInstallationsByProjectId(projectId) : [];
+        // Project is gone, so the installation needs to be configured again
+        for (const installation of installations) {
+          await updateInstallation(installation.uuid, {
+            vercel_project_id: null,
+            vercel_project_name: null,
+            deployment_url: null,
+            status: 'pending',
+          });
+        }
+        break;
+      }
+
+      case 'deployment.succeeded':
+      case 'deployment.error': {
+        const projectId = payload.project?.id;
+        if (payload.deployment?.id) {
+          await updateDeploymentByVercelId(payload.deployment.id, event.type === 'deployment.succeeded'
+            ? { state: 'READY', ready_at: new Date(event.createdAt).toISOString() }
+            : { state: 'ERROR' });
+        }
+
+        // Only the deployment an installation currently points at changes its status; a failed
+        // deployment started elsewhere leaves the live one (and the installation) as it is
+        const installations = projectId ? await getInstallationsByProjectId(projectId) : [];
+        for (const installation of installations) {
+          if (installation.status === 'uninstalled') continue;
+          if (!payload.deployment?.id || installation.deployment_id !== payload.deployment.id) continue;
+          const updated = await updateInstallation(installation.uuid, {
+            deployment_url: payload.deployment?.url || installation.deployment_url,
+            status: event.type === 'deployment.succeeded' ? 'installed' : 'failed',
+          });
+
+          // Run migrate/seed/generate-key as soon as the deployment we created is live
+          if (event.type === 'deployment.succeeded' && updated) {
+            try {
+              await runBootstrap(updated, log);
+            } catch (error) {
+              log.error('Bootstrap after deployment failed', { installationUuid: updated.uuid, error });
+            }
+          }
+        }
+        break;
+      }
+
+      default:
+        // Events we don't subscribe to are acknowledged and ignored
+        break;
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error('Webhook processing failed', { type: event.type, error });
+    return NextResponse.json(
+      { error: 'Failed to process webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,54 @@
 'use client';
 
-import { useState, Suspense, useEffect } from 'react';
+import { useState, Suspense, useEffect, useCallback } from 'react';
 import { useSearchParams } from 'next/navigation';
+import { ASSISTANT_LIMITS, ASSISTANT_MODELS, DEFAULT_ASSISTANT_SETTINGS } from '@/lib/assistant-env';
+import { PENDING_BOOTSTRAP_CHECKLIST } from '@/lib/bootstrap-steps';
+import { ERROR_CODES } from '@/lib/errors';
+import {
+  AssistantSettings,
+  BootstrapChecklistItem,
+  DeploymentConfig,
+  DeploymentResult,
+  DeploymentStatus,
+  ErrorCode,
+  PreflightFieldResult,
+  PreflightResult,
+  VercelProject,
+} from '@/types';
+import {
+  SESSION_EXPIRED_MESSAGE,
+  STATE_LABELS,
+  STATE_STYLES,
+  STEP_LABELS,
+  STEP_STYLES,
+  signInUrl,
+} from '../installations/status';
+
+const STATUS_POLL_INTERVAL_MS = 5000;
+
+const FINAL_STATES = ['READY', 'ERROR', 'CANCELED'];
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const NEW_PROJECT = '__new__';
+
+// Number inputs may be cleared; those settings are left out so the server default applies
+type AssistantSettingsForm = Omit<AssistantSettings, 'temperature' | 'maxTokens'> &
+  Partial<Pick<AssistantSettings, 'temperature' | 'maxTokens'>>;
+
+const parseNumberInput = (value: string) => (value === '' ? undefined : Number(value));
+
+const STEP_ICONS: Record<string, string> = {
+  pending: '○',
+  running: '◐',
+  succeeded: '✓',
+  failed: '✕',
+};
 
 function ConfigurationForm() {
   const searchParams = useSearchParams();
@@ -9,7 +56,7 @@ function ConfigurationForm() {
   const nextUrl = searchParams.get('next'); // Get the next URL from Vercel
   const tempSuccess = searchParams.get('success'); // Temporary flag for local testing
 
-  const [config, setConfig] = useState({
+  const [config, setConfig] = useState<Omit<DeploymentConfig, 'assistant'> & { assistant: AssistantSettingsForm }>({
     supabase: {
       url: '',
       serviceRoleKey: '',
@@ -23,14 +70,29 @@ function ConfigurationForm() {
     openai: {
       apiKey: '',
     },
+    assistant: { ...DEFAULT_ASSISTANT_SETTINGS },
+    admin: {
+      email: '',
+    },
   });
 
   const [isDeploying, setIsDeploying] = useState(false);
   const [isLoading, setIsLoading] = useState(true); // Add loading state
   const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<ErrorCode | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [deploymentData, setDeploymentData] = useState<any>(null);
+  const [deploymentData, setDeploymentData] = useState<DeploymentResult | null>(null);
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
+  const [deploymentStatus, setDeploymentStatus] = useState<DeploymentStatus | null>(null);
+  const [bootstrapSteps, setBootstrapSteps] = useState<BootstrapChecklistItem[] | null>(null);
+  const [isBootstrapping, setIsBootstrapping] = useState(false);
+  const [bootstrapError, setBootstrapError] = useState<string | null>(null);
+  const [validation, setValidation] = useState<PreflightResult | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [projects, setProjects] = useState<VercelProject[]>([]);
+  const [projectsError, setProjectsError] = useState<string | null>(null);
+  const [selectedProject, setSelectedProject] = useState('');
+  const [newProjectName, setNewProjectName] = useState('assistant-server');
 
   // Temporary success state for local testing
   const isSuccessState = tempSuccess === 'true' || success;
@@ -38,7 +100,10 @@ function ConfigurationForm() {
   // Check if required fields are filled
   const isFormValid = config.supabase.url && config.supabase.serviceRoleKey && 
                      config.database.host && config.database.name && config.database.user && config.database.password &&
-                     config.openai.apiKey;
+                     config.openai.apiKey &&
+                     config.assistant.organizationName.trim() && config.assistant.assistantName.trim() &&
+                     config.admin.email &&
+                     (selectedProject === NEW_PROJECT ? newProjectName.trim() : selectedProject);
 
   // Handle loading state
   useEffect(() => {
@@ -50,19 +115,164 @@ function ConfigurationForm() {
     // Temporary: Set mock data for success state testing
     if (tempSuccess === 'true') {
       setDeploymentData({
-        projectName: 'assistant-server',
+        deploymentId: '', // No status polling for the mock
         deploymentUrl: 'https://assistant-server-abc123.vercel.app',
-        migrationSecretKey: '12345678-1234-1234-1234-123456789abc'
+        projectName: 'assistant-server',
+        envVariables: { added: [], changed: [], unchanged: [], removed: [] },
+        adminEmail: '',
+        adminPassword: '',
       });
     }
     
     return () => clearTimeout(timer);
   }, [tempSuccess]);
 
+  // Results describe the values that were checked, so drop them once anything changes
+  useEffect(() => {
+    setValidation(null);
+  }, [config]);
+
+  // Load the projects this integration configuration can deploy to
+  useEffect(() => {
+    if (!configurationId || tempSuccess === 'true') return;
+
+    const loadProjects = async () => {
+      try {
+        const response = await fetch(`/api/projects?configurationId=${encodeURIComponent(configurationId)}`);
+        const data = await response.json();
+
+        if (response.status === 401) {
+          throw new Error(SESSION_EXPIRED_MESSAGE);
+        }
+        if (!response.ok) {
+          throw new Error(data.message || data.error || 'Failed to load projects');
+        }
+
+        setProjects(data.data.projects);
+        if (data.data.projects.length === 0) {
+          setSelectedProject(NEW_PROJECT);
+        }
+      } catch (err) {
+        setProjectsError(err instanceof Error ? err.message : 'Failed to load projects');
+      }
+    };
+
+    loadProjects();
+  }, [configurationId, tempSuccess]);
+
+  // Poll deployment status until it reaches a final state
+  useEffect(() => {
+    const deploymentId = deploymentData?.deploymentId;
+    if (!deploymentId || !configurationId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(
+          `/api/deployments/${deploymentId}/status?configurationId=${encodeURIComponent(configurationId)}`
+        );
+        const data = await response.json();
+
+        if (cancelled) return;
+        if (response.status === 401) {
+          throw new Error(SESSION_EXPIRED_MESSAGE);
+        }
+        if (!response.ok) {
+          throw new Error(data.message || data.error || 'Failed to fetch deployment status');
+        }
+
+        setError(null);
+        setDeploymentStatus(data.data);
+        if (FINAL_STATES.includes(data.data.state)) return;
+      } catch (err) {
+        // Keep polling: the deployment itself may still be fine
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to fetch deployment status');
+        }
+      }
+
+      if (!cancelled) {
+        timer = setTimeout(poll, STATUS_POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [deploymentData?.deploymentId, configurationId]);
+
+  const runBootstrap = useCallback(async () => {
+    try {
+      setIsBootstrapping(true);
+      setBootstrapError(null);
+
+      const response = await fetch('/api/bootstrap', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ configurationId }),
+      });
+      const data = await response.json();
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Setup failed');
+      }
+
+      setBootstrapSteps(data.data.steps);
+    } catch (err) {
+      setBootstrapError(err instanceof Error ? err.message : 'Setup failed');
+    } finally {
+      setIsBootstrapping(false);
+    }
+  }, [configurationId]);
+
+  // Run the setup steps once the deployment is live
+  useEffect(() => {
+    if (deploymentStatus?.state === 'READY' && !bootstrapSteps) {
+      runBootstrap();
+    }
+  }, [deploymentStatus?.state, bootstrapSteps, runBootstrap]);
+
+  const handleValidate = async () => {
+    try {
+      setIsValidating(true);
+      setError(null);
+      setErrorCode(null);
+
+      const response = await fetch('/api/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config }),
+      });
+      const data = await response.json();
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+      if (!data.data?.fields) {
+        throw new Error(data.message || data.error || 'Validation failed');
+      }
+
+      setValidation(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Validation failed');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
   const handleDeploy = async () => {
     try {
       setIsDeploying(true);
       setError(null);
+      setErrorCode(null);
 
       const response = await fetch('/api/deploy', {
         method: 'POST',
@@ -70,13 +280,24 @@ function ConfigurationForm() {
         body: JSON.stringify({
           configurationId,
           config,
-          projectName: 'assistant-server',
+          ...(selectedProject === NEW_PROJECT
+            ? { createProject: true, projectName: newProjectName.trim() }
+            : { projectId: selectedProject }),
         }),
       });
 
       const data = await response.json();
 
+      // A coded 401 is a revoked Vercel token, not an expired session
+      if (response.status === 401 && !data.code) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+
       if (!response.ok) {
+        if (data.code && data.code in ERROR_CODES) {
+          setErrorCode(data.code);
+        }
+
         let errorMessage = 'Deployment failed';
         
         if (data.message) {
@@ -119,11 +340,6 @@ function ConfigurationForm() {
     }
   };
 
-  const truncateUrl = (url: string, maxLength: number = 60) => {
-    if (url.length <= maxLength) return url;
-    return url.substring(0, maxLength) + '...';
-  };
-
   // Check if configurationId is provided
   if (!configurationId) {
     return (
@@ -160,8 +376,16 @@ function ConfigurationForm() {
               <div className="flex items-center">
                 <div className="text-xl mr-2">⚠️</div>
                 <div>
-                  <h3 className="font-semibold text-red-800">Deployment Failed</h3>
+                  <h3 className="font-semibold text-red-800">{errorCode ? ERROR_CODES[errorCode].title : isSuccessState ? 'Status Unavailable' : 'Deployment Failed'}</h3>
                   <p className="text-red-700 mt-1">{error}</p>
+                  {error === SESSION_EXPIRED_MESSAGE && (
+                    <a href={signInUrl()} className="mt-2 inline-block font-medium underline">Sign in again</a>
+                  )}
+                  {errorCode && (
+                    <p className="text-red-700 mt-2">
+                      <strong>How to fix:</strong> {ERROR_CODES[errorCode].remediation}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -185,8 +409,24 @@ function ConfigurationForm() {
                     <h3 className="text-lg font-semibold text-purple-800">Deployment Status</h3>
                   </div>
                   <div className="bg-white p-4 rounded-md border">
-                    <p className="text-gray-700 mb-2"><strong>Status:</strong> <span className="text-orange-600">In Progress</span></p>
-                    <p className="text-gray-700 mb-3">Your deployment is currently being processed. This may take a few minutes.</p>
+                    <p className="text-gray-700 mb-2">
+                      <strong>Status:</strong>{' '}
+                      <span className={(deploymentStatus && STATE_STYLES[deploymentStatus.state]) || 'text-orange-600'}>
+                        {(deploymentStatus && STATE_LABELS[deploymentStatus.state]) || 'In Progress'}
+                      </span>
+                    </p>
+                    {deploymentStatus?.buildDurationMs !== undefined && (
+                      <p className="text-gray-700 mb-2"><strong>Build Duration:</strong> {formatDuration(deploymentStatus.buildDurationMs)}</p>
+                    )}
+                    {deploymentStatus?.state === 'ERROR' ? (
+                      <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-3">
+                        <p className="text-red-700 text-sm"><strong>Failure Reason:</strong> {deploymentStatus.errorMessage || 'The build failed without an error message. Check the build logs in Vercel.'}</p>
+                      </div>
+                    ) : deploymentStatus?.state === 'READY' ? (
+                      <p className="text-gray-700 mb-3">Your deployment is live.</p>
+                    ) : (
+                      <p className="text-gray-700 mb-3">Your deployment is currently being processed. This may take a few minutes.</p>
+                    )}
                     {deploymentData && (
                       <div className="space-y-2">
                         <p className="text-sm"><strong>Project:</strong> {deploymentData.projectName}</p>
@@ -197,8 +437,32 @@ function ConfigurationForm() {
                   </div>
                 </div>
 
-                {/* Database Setup Instructions */}
-                {deploymentData?.migrationSecretKey && (
+                {/* Admin Credentials (shown once) */}
+                {deploymentData?.adminPassword && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+                    <div className="flex items-center mb-4">
+                      <div className="text-xl mr-3">🔐</div>
+                      <h3 className="text-lg font-semibold text-red-800">Admin Credentials</h3>
+                    </div>
+                    <div className="bg-white p-4 rounded-md border space-y-2">
+                      <p className="text-sm text-red-700"><strong>This password is shown only once and is not stored anywhere.</strong> Copy it now.</p>
+                      <p className="text-sm"><strong>Email:</strong> {deploymentData.adminEmail}</p>
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm"><strong>Password:</strong> <span className="font-mono">{deploymentData.adminPassword}</span></p>
+                        <button
+                          onClick={() => copyToClipboard(deploymentData.adminPassword, 'admin-password')}
+                          className="px-2 py-1 text-xs font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded transition-colors"
+                          title="Copy password"
+                        >
+                          {copiedUrl === 'admin-password' ? 'Copied!' : 'Copy'}
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {/* Server Setup Checklist */}
+                {deploymentData && (
                   <div className="bg-green-50 border border-green-200 rounded-lg p-6">
                     <div className="flex items-center mb-4">
                       <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center mr-3">
@@ -207,152 +471,50 @@ function ConfigurationForm() {
                       <h3 className="text-lg font-semibold text-green-800">Database Setup</h3>
                     </div>
                     <div className="bg-white p-4 rounded-md border">
-                      <p className="text-gray-700 mb-4">Once your deployment is complete, run these setup steps in order:</p>
-                      
-                      <div className="space-y-4">
-                        {/* Migration URL */}
-                        <div className="bg-gray-50 p-3 rounded-md border border-gray-200">
-                          <div className="flex items-start justify-between mb-2">
-                            <div className="flex items-center gap-2">
-                              <span className="text-xs font-semibold text-gray-700">1. Migration</span>
-                              <div className="group relative">
-                                <svg className="w-4 h-4 text-gray-400 hover:text-gray-600 cursor-help" fill="currentColor" viewBox="0 0 20 20">
-                                  <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-3a1 1 0 00-.867.5 1 1 0 11-1.731-1A3 3 0 0113 8a3.001 3.001 0 01-2 2.83V11a1 1 0 11-2 0v-1a1 1 0 011-1 1 1 0 100-2zm0 8a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
-                                </svg>
-                                <div className="hidden group-hover:block absolute left-0 bottom-full mb-2 w-64 p-2 bg-gray-800 text-white text-xs rounded shadow-lg z-10">
-                                  Creates all necessary database tables and functions for the Assistant Server
-                                </div>
-                              </div>
-                            </div>
-                            <button
-                              onClick={() => copyToClipboard(`${deploymentData.deploymentUrl}/api/migrate?key=${deploymentData.migrationSecretKey}`, 'migrate')}
-                              className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded transition-colors"
-                              title="Copy URL"
-                            >
-                              {copiedUrl === 'migrate' ? (
-                                <>
-                                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                                  </svg>
-                                  <span>Copied!</span>
-                                </>
-                              ) : (
-                                <>
-                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                                  </svg>
-                                  <span>Copy</span>
-                                </>
-                              )}
-                            </button>
-                          </div>
-                          <a
-                            href={`${deploymentData.deploymentUrl}/api/migrate?key=${deploymentData.migrationSecretKey}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-xs text-blue-600 hover:underline font-mono block truncate"
-                            title={`${deploymentData.deploymentUrl}/api/migrate?key=${deploymentData.migrationSecretKey}`}
-                          >
-                            {truncateUrl(`${deploymentData.deploymentUrl}/api/migrate?key=${deploymentData.migrationSecretKey}`)}
-                          </a>
-                        </div>
-
-                        {/* Seed Default Data URL */}
-                        <div className="bg-gray-50 p-3 rounded-md border border-gray-200">
-                          <div className="flex items-start justify-between mb-2">
-                            <div className="flex items-center gap-2">
-                              <span className="text-xs font-semibold text-gray-700">2. Seed Default Data</span>
-                              <div className="group relative">
-                                <svg className="w-4 h-4 text-gray-400 hover:text-gray-600 cursor-help" fill="currentColor" viewBox="0 0 20 20">
-                                  <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-3a1 1 0 00-.867.5 1 1 0 11-1.731-1A3 3 0 0113 8a3.001 3.001 0 01-2 2.83V11a1 1 0 11-2 0v-1a1 1 0 011-1 1 1 0 100-2zm0 8a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
-                                </svg>
-                                <div className="hidden group-hover:block absolute left-0 bottom-full mb-2 w-64 p-2 bg-gray-800 text-white text-xs rounded shadow-lg z-10">
-                                  Populates the database with default configuration data and initial settings
-                                </div>
+                      <p className="text-gray-700 mb-4">These setup steps run automatically once your deployment is ready:</p>
+
+                      <div className="space-y-3">
+                        {(bootstrapSteps || PENDING_BOOTSTRAP_CHECKLIST).map((item, index) => (
+                          <div key={item.step} className="bg-gray-50 p-3 rounded-md border border-gray-200">
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-2">
+                                <span className={`text-sm ${STEP_STYLES[item.status]}`}>{STEP_ICONS[item.status]}</span>
+                                <span className="text-xs font-semibold text-gray-700">{index + 1}. {item.label}</span>
                               </div>
+                              <span className={`text-xs font-medium ${STEP_STYLES[item.status]}`}>{STEP_LABELS[item.status]}</span>
                             </div>
-                            <button
-                              onClick={() => copyToClipboard(`${deploymentData.deploymentUrl}/api/seed-default?key=${deploymentData.migrationSecretKey}`, 'seed')}
-                              className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded transition-colors"
-                              title="Copy URL"
-                            >
-                              {copiedUrl === 'seed' ? (
-                                <>
-                                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                                  </svg>
-                                  <span>Copied!</span>
-                                </>
-                              ) : (
-                                <>
-                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                                  </svg>
-                                  <span>Copy</span>
-                                </>
-                              )}
-                            </button>
-                          </div>
-                          <a
-                            href={`${deploymentData.deploymentUrl}/api/seed-default?key=${deploymentData.migrationSecretKey}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-xs text-blue-600 hover:underline font-mono block truncate"
-                            title={`${deploymentData.deploymentUrl}/api/seed-default?key=${deploymentData.migrationSecretKey}`}
-                          >
-                            {truncateUrl(`${deploymentData.deploymentUrl}/api/seed-default?key=${deploymentData.migrationSecretKey}`)}
-                          </a>
-                        </div>
-
-                        {/* Generate API Key URL */}
-                        <div className="bg-gray-50 p-3 rounded-md border border-gray-200">
-                          <div className="flex items-start justify-between mb-2">
-                            <div className="flex items-center gap-2">
-                              <span className="text-xs font-semibold text-gray-700">3. Generate API Key</span>
-                              <div className="group relative">
-                                <svg className="w-4 h-4 text-gray-400 hover:text-gray-600 cursor-help" fill="currentColor" viewBox="0 0 20 20">
-                                  <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-3a1 1 0 00-.867.5 1 1 0 11-1.731-1A3 3 0 0113 8a3.001 3.001 0 01-2 2.83V11a1 1 0 11-2 0v-1a1 1 0 011-1 1 1 0 100-2zm0 8a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
-                                </svg>
-                                <div className="hidden group-hover:block absolute left-0 bottom-full mb-2 w-64 p-2 bg-gray-800 text-white text-xs rounded shadow-lg z-10">
-                                  Creates a default API key for src-to-kb library to send content to the Assistant Server
-                                </div>
+                            <p className="text-xs text-gray-600 mt-1">{item.description}</p>
+                            {item.status === 'failed' && item.error && (
+                              <p className="text-xs text-red-700 mt-2">{item.error}</p>
+                            )}
+                            {item.step === 'generate-key' && item.output != null && (
+                              <div className="mt-2 flex items-start justify-between gap-2">
+                                <pre className="text-xs font-mono bg-white border border-gray-200 rounded p-2 overflow-x-auto flex-1">{JSON.stringify(item.output, null, 2)}</pre>
+                                <button
+                                  onClick={() => copyToClipboard(JSON.stringify(item.output), 'generate-key')}
+                                  className="px-2 py-1 text-xs font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded transition-colors"
+                                  title="Copy"
+                                >
+                                  {copiedUrl === 'generate-key' ? 'Copied!' : 'Copy'}
+                                </button>
                               </div>
-                            </div>
-                            <button
-                              onClick={() => copyToClipboard(`${deploymentData.deploymentUrl}/api/generate-key?key=${deploymentData.migrationSecretKey}`, 'generate-key')}
-                              className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded transition-colors"
-                              title="Copy URL"
-                            >
-                              {copiedUrl === 'generate-key' ? (
-                                <>
-                                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                                  </svg>
-                                  <span>Copied!</span>
-                                </>
-                              ) : (
-                                <>
-                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                                  </svg>
-                                  <span>Copy</span>
-                                </>
-                              )}
-                            </button>
+                            )}
                           </div>
-                          <a
-                            href={`${deploymentData.deploymentUrl}/api/generate-key?key=${deploymentData.migrationSecretKey}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-xs text-blue-600 hover:underline font-mono block truncate"
-                            title={`${deploymentData.deploymentUrl}/api/generate-key?key=${deploymentData.migrationSecretKey}`}
-                          >
-                            {truncateUrl(`${deploymentData.deploymentUrl}/api/generate-key?key=${deploymentData.migrationSecretKey}`)}
-                          </a>
-                        </div>
+                        ))}
                       </div>
 
-                      <p className="text-xs text-gray-600 mt-3">Run these endpoints in order after your deployment completes. Each requires the same migration key for authentication.</p>
+                      {bootstrapSteps?.some(item => item.status === 'failed') && (
+                        <button
+                          onClick={runBootstrap}
+                          disabled={isBootstrapping}
+                          className="mt-4 w-full bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800 disabled:bg-gray-400 disabled:cursor-not-allowed text-sm font-medium transition-colors"
+                        >
+                          {isBootstrapping ? 'Retrying...' : 'Retry Failed Steps'}
+                        </button>
+                      )}
+                      {bootstrapError && (
+                        <p className="text-xs text-red-700 mt-3">{bootstrapError}</p>
+                      )}
                     </div>
                   </div>
                 )}
@@ -374,6 +536,9 @@ function ConfigurationForm() {
                       Complete Integration →
                     </button>
                     <p className="text-xs text-gray-600 mt-2">This will redirect you back to Vercel to complete the integration process.</p>
+                    <p className="text-xs text-gray-600 mt-2">
+                      Redeploy, check setup or uninstall later from <a href="/installations" className="text-blue-600 hover:underline">your installations</a>.
+                    </p>
                   </div>
                 </div>
               </div>
@@ -407,6 +572,7 @@ function ConfigurationForm() {
                       className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-purple-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
                       placeholder="https://your-project.supabase.co"
                     />
+                    <FieldStatus result={validation?.fields['supabase.url']} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Service Role Key</label>
@@ -418,6 +584,7 @@ function ConfigurationForm() {
                       className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-purple-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
                       placeholder="eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
                     />
+                    <FieldStatus result={validation?.fields['supabase.serviceRoleKey']} />
                   </div>
                 </div>
               </div>
@@ -447,6 +614,7 @@ function ConfigurationForm() {
                       className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
                       placeholder="db.your-project.supabase.co"
                     />
+                    <FieldStatus result={validation?.fields['database.host']} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Database Name</label>
@@ -458,6 +626,7 @@ function ConfigurationForm() {
                       className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
                       placeholder="postgres"
                     />
+                    <FieldStatus result={validation?.fields['database.name']} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Database User</label>
@@ -469,6 +638,7 @@ function ConfigurationForm() {
                       className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
                       placeholder="postgres"
                     />
+                    <FieldStatus result={validation?.fields['database.user']} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Database Password</label>
@@ -480,6 +650,7 @@ function ConfigurationForm() {
                       className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
                       placeholder="your-database-password"
                     />
+                    <FieldStatus result={validation?.fields['database.password']} />
                   </div>
                 </div>
               </div>
@@ -508,9 +679,202 @@ function ConfigurationForm() {
                     className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
                     placeholder="sk-proj-..."
                   />
+                  <FieldStatus result={validation?.fields['openai.apiKey']} />
+                </div>
+              </div>
+
+              {/* Section 4: Assistant Settings */}
+              <div className="border border-gray-200 rounded-lg p-6">
+                <div className="flex items-center mb-4">
+                  <div className="w-8 h-8 bg-orange-100 rounded-full flex items-center justify-center mr-3">
+                    <span className="text-orange-600 font-semibold">4</span>
+                  </div>
+                  <h2 className="text-xl font-semibold text-gray-900">Assistant Settings</h2>
+                </div>
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+                  <h3 className="font-semibold text-yellow-800 mb-2">Optional:</h3>
+                  <p className="text-yellow-700 text-sm">
+                    The defaults work for most setups. You can change these later by redeploying.
+                  </p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">AI Model</label>
+                    <select
+                      value={config.assistant.model}
+                      onChange={(e) => setConfig({ ...config, assistant: { ...config.assistant, model: e.target.value } })}
+                      disabled={isLoading}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-orange-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                    >
+                      {ASSISTANT_MODELS.map((model) => (
+                        <option key={model} value={model}>{model}</option>
+                      ))}
+                    </select>
+                    <FieldStatus result={validation?.fields['assistant.model']} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Temperature ({ASSISTANT_LIMITS.temperature.min}–{ASSISTANT_LIMITS.temperature.max})
+                    </label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      min={ASSISTANT_LIMITS.temperature.min}
+                      max={ASSISTANT_LIMITS.temperature.max}
+                      value={config.assistant.temperature ?? ''}
+                      onChange={(e) => setConfig({ ...config, assistant: { ...config.assistant, temperature: parseNumberInput(e.target.value) } })}
+                      disabled={isLoading}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-orange-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                      placeholder={String(DEFAULT_ASSISTANT_SETTINGS.temperature)}
+                    />
+                    <FieldStatus result={validation?.fields['assistant.temperature']} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Max Tokens ({ASSISTANT_LIMITS.maxTokens.min}–{ASSISTANT_LIMITS.maxTokens.max})
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      min={ASSISTANT_LIMITS.maxTokens.min}
+                      max={ASSISTANT_LIMITS.maxTokens.max}
+                      value={config.assistant.maxTokens ?? ''}
+                      onChange={(e) => setConfig({ ...config, assistant: { ...config.assistant, maxTokens: parseNumberInput(e.target.value) } })}
+                      disabled={isLoading}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-orange-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                      placeholder={String(DEFAULT_ASSISTANT_SETTINGS.maxTokens)}
+                    />
+                    <FieldStatus result={validation?.fields['assistant.maxTokens']} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Organization Name</label>
+                    <input
+                      type="text"
+                      maxLength={ASSISTANT_LIMITS.nameLength}
+                      value={config.assistant.organizationName}
+                      onChange={(e) => setConfig({ ...config, assistant: { ...config.assistant, organizationName: e.target.value } })}
+                      disabled={isLoading}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-orange-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                      placeholder={DEFAULT_ASSISTANT_SETTINGS.organizationName}
+                    />
+                    <FieldStatus result={validation?.fields['assistant.organizationName']} />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Assistant Name</label>
+                    <input
+                      type="text"
+                      maxLength={ASSISTANT_LIMITS.nameLength}
+                      value={config.assistant.assistantName}
+                      onChange={(e) => setConfig({ ...config, assistant: { ...config.assistant, assistantName: e.target.value } })}
+                      disabled={isLoading}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-orange-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                      placeholder={DEFAULT_ASSISTANT_SETTINGS.assistantName}
+                    />
+                    <FieldStatus result={validation?.fields['assistant.assistantName']} />
+                  </div>
                 </div>
               </div>
 
+              {/* Section 5: Admin Account */}
+              <div className="border border-gray-200 rounded-lg p-6">
+                <div className="flex items-center mb-4">
+                  <div className="w-8 h-8 bg-red-100 rounded-full flex items-center justify-center mr-3">
+                    <span className="text-red-600 font-semibold">5</span>
+                  </div>
+                  <h2 className="text-xl font-semibold text-gray-900">Admin Account</h2>
+                </div>
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+                  <h3 className="font-semibold text-yellow-800 mb-2">How this works:</h3>
+                  <p className="text-yellow-700 text-sm">
+                    A strong random password is generated for this admin user and shown <strong>once</strong> after deployment. Save it somewhere safe.
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Admin Email</label>
+                  <input
+                    type="email"
+                    value={config.admin.email}
+                    onChange={(e) => setConfig({ ...config, admin: { ...config.admin, email: e.target.value } })}
+                    disabled={isLoading}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-red-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                    placeholder="admin@your-company.com"
+                  />
+                  <FieldStatus result={validation?.fields['admin.email']} />
+                </div>
+              </div>
+
+              {/* Section 6: Target Project */}
+              <div className="border border-gray-200 rounded-lg p-6">
+                <div className="flex items-center mb-4">
+                  <div className="w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center mr-3">
+                    <span className="text-gray-600 font-semibold">6</span>
+                  </div>
+                  <h2 className="text-xl font-semibold text-gray-900">Target Project</h2>
+                </div>
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+                  <h3 className="font-semibold text-yellow-800 mb-2">Choose carefully:</h3>
+                  <p className="text-yellow-700 text-sm">
+                    Environment variables are written to the selected project and a production deployment is created. Pick a dedicated project or create a new one.
+                  </p>
+                </div>
+                {projectsError && (
+                  <p className="text-sm text-red-600 mb-4">
+                    {projectsError}
+                    {projectsError === SESSION_EXPIRED_MESSAGE && (
+                      <> <a href={signInUrl()} className="font-medium underline">Sign in again</a></>
+                    )}
+                  </p>
+                )}
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Project</label>
+                    <select
+                      value={selectedProject}
+                      onChange={(e) => setSelectedProject(e.target.value)}
+                      disabled={isLoading}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-gray-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                    >
+                      <option value="">Select a project...</option>
+                      {projects.map((project) => (
+                        <option key={project.id} value={project.id}>
+                          {project.name}{project.framework ? ` (${project.framework})` : ''}
+                        </option>
+                      ))}
+                      <option value={NEW_PROJECT}>+ Create a new project</option>
+                    </select>
+                  </div>
+                  {selectedProject === NEW_PROJECT && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">New Project Name</label>
+                      <input
+                        type="text"
+                        value={newProjectName}
+                        onChange={(e) => setNewProjectName(e.target.value)}
+                        disabled={isLoading}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-gray-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                        placeholder="assistant-server"
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {validation && (
+                <div className={`px-4 py-3 rounded-md border text-sm ${validation.valid ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
+                  {validation.valid
+                    ? 'All credentials were verified successfully.'
+                    : 'Some credentials could not be verified. Check the messages next to each field.'}
+                </div>
+              )}
+
+              <button
+                onClick={handleValidate}
+                disabled={isValidating || isDeploying || isLoading || !isFormValid}
+                className="w-full bg-white text-gray-900 py-3 px-6 rounded-md border-2 border-gray-200 hover:border-gray-300 hover:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
+              >
+                {isValidating ? 'Validating...' : 'Validate Credentials'}
+              </button>
+
               <button
                 onClick={handleDeploy}
                 disabled={isDeploying || isLoading || !isFormValid}
@@ -526,6 +890,16 @@ function ConfigurationForm() {
   );
 }
 
+function FieldStatus({ result }: { result?: PreflightFieldResult }) {
+  if (!result) return null;
+
+  return result.ok ? (
+    <p className="mt-1 text-xs text-green-600">✓ Verified</p>
+  ) : (
+    <p className="mt-1 text-xs text-red-600">✕ {result.message || 'Check failed'}</p>
+  );
+}
+
 export default function ConfigurePage() {
   return (
     <Suspense fallback={<div className="min-h-screen flex items-center justify-center">Loading...</div>}>
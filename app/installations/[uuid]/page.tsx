@@ -0,0 +1,141 @@
+'use client';
+
+import { useState, Suspense, useEffect } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import { InstallationSummary } from '@/types';
+import { SESSION_EXPIRED_MESSAGE, STATE_LABELS, STATE_STYLES, STATUS_LABELS, STATUS_STYLES, formatDate, signInUrl } from '../status';
+
+function InstallationDetails() {
+  const { uuid } = useParams<{ uuid: string }>();
+  const searchParams = useSearchParams();
+  const nextUrl = searchParams.get('next'); // Set when Vercel sent the user through the install flow again
+
+  const [installation, setInstallation] = useState<InstallationSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadInstallation = async () => {
+      try {
+        const response = await fetch(`/api/installations/${encodeURIComponent(uuid)}`);
+        const data = await response.json();
+
+        if (response.status === 401) {
+          throw new Error(SESSION_EXPIRED_MESSAGE);
+        }
+        if (!response.ok) {
+          throw new Error(data.message || data.error || 'Failed to load installation');
+        }
+
+        setInstallation(data.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load installation');
+      }
+    };
+
+    loadInstallation();
+  }, [uuid]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-red-600">Unable to Load Installation</h1>
+          <p className="mt-2 text-gray-600">{error}</p>
+          {error === SESSION_EXPIRED_MESSAGE && (
+            <a href={signInUrl()} className="mt-4 inline-block text-blue-600 hover:underline font-medium">Sign in again</a>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (!installation) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  const deployment = installation.latest_deployment;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white shadow rounded-lg p-8 space-y-6">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-1">
+                {installation.vercel_project_name || installation.app_name}
+              </h1>
+              <p className="text-sm text-gray-500">Configuration {installation.installation_id}</p>
+            </div>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_STYLES[installation.status]}`}>
+              {STATUS_LABELS[installation.status]}
+            </span>
+          </div>
+
+          {nextUrl && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <p className="text-blue-700 text-sm">
+                This integration is already installed and deployed. Your Vercel token has been refreshed, so there is nothing to configure again.
+              </p>
+            </div>
+          )}
+
+          <div className="border border-gray-200 rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Assistant Server</h2>
+            <div className="space-y-2 text-sm">
+              <p><strong>Project:</strong> {installation.vercel_project_name || '—'}</p>
+              <p>
+                <strong>Live URL:</strong>{' '}
+                {installation.deployment_url ? (
+                  <a href={installation.deployment_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline font-medium">
+                    {installation.deployment_url}
+                  </a>
+                ) : '—'}
+              </p>
+              <p><strong>Installed:</strong> {formatDate(installation.created_at)}</p>
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Latest Deployment</h2>
+            {deployment ? (
+              <div className="space-y-2 text-sm">
+                <p>
+                  <strong>Status:</strong>{' '}
+                  <span className={STATE_STYLES[deployment.state] || 'text-gray-600'}>{STATE_LABELS[deployment.state] || deployment.state}</span>
+                </p>
+                <p><strong>Started:</strong> {formatDate(deployment.created_at)}</p>
+                {deployment.ready_at && <p><strong>Ready:</strong> {formatDate(deployment.ready_at)}</p>}
+                {deployment.error_message && (
+                  <p className="text-red-700"><strong>Failure Reason:</strong> {deployment.error_message}</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">No deployments yet.</p>
+            )}
+          </div>
+
+          <a href="/installations" className="block text-center text-sm text-blue-600 hover:underline">
+            Manage all installations →
+          </a>
+
+          {nextUrl && (
+            <button
+              onClick={() => (window.location.href = nextUrl)}
+              className="w-full bg-black text-white py-3 px-6 rounded-md hover:bg-gray-800 font-medium shadow-sm transition-colors"
+            >
+              Return to Vercel →
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function InstallationPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen flex items-center justify-center">Loading...</div>}>
+      <InstallationDetails />
+    </Suspense>
+  );
+}
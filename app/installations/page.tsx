@@ -0,0 +1,395 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ERROR_CODES } from '@/lib/errors';
+import { GENERATED_SECRETS, ROTATABLE_SECRETS } from '@/lib/assistant-env';
+import { BootstrapChecklistItem, ErrorCode, InstallationSummary, RotatableSecret } from '@/types';
+import {
+  SECRET_LABELS,
+  SESSION_EXPIRED_MESSAGE,
+  STATE_LABELS,
+  STATE_STYLES,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  STEP_LABELS,
+  STEP_STYLES,
+  formatDate,
+  signInUrl,
+} from './status';
+
+type Notice = { kind: 'success' | 'error'; message: string; code?: ErrorCode };
+
+// Coded errors come with a remediation; everything else shows the server message
+async function readError(response: Response, fallback: string): Promise<Notice> {
+  const data = await response.json().catch(() => ({}));
+  if (response.status === 401 && !data.code) {
+    return { kind: 'error', message: SESSION_EXPIRED_MESSAGE };
+  }
+  return { kind: 'error', message: data.message || data.error || fallback, code: data.code };
+}
+
+export default function InstallationsPage() {
+  const [installations, setInstallations] = useState<InstallationSummary[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [notices, setNotices] = useState<Record<string, Notice>>({});
+  const [busy, setBusy] = useState<Record<string, string>>({}); // uuid -> running action
+  const [expanded, setExpanded] = useState<string | null>(null); // uuid showing its setup endpoints
+  const [confirmingUninstall, setConfirmingUninstall] = useState<string | null>(null);
+  const [removeEnvVars, setRemoveEnvVars] = useState(false);
+  const [rotating, setRotating] = useState<string | null>(null); // uuid showing the rotation form
+  const [generateSecrets, setGenerateSecrets] = useState<RotatableSecret[]>([]);
+  const [replacementKeys, setReplacementKeys] = useState<Partial<Record<RotatableSecret, string>>>({});
+
+  const loadInstallations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/installations');
+      const data = await response.json();
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to load installations');
+      }
+
+      setInstallations(data.data.installations);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Failed to load installations');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInstallations();
+  }, [loadInstallations]);
+
+  // Run an action for one installation, record its outcome and refresh the list
+  const runAction = async (uuid: string, action: string, request: () => Promise<Notice>) => {
+    setBusy(current => ({ ...current, [uuid]: action }));
+    setNotices(({ [uuid]: _removed, ...rest }) => rest);
+    try {
+      const notice = await request();
+      setNotices(current => ({ ...current, [uuid]: notice }));
+      await loadInstallations();
+    } catch (err) {
+      setNotices(current => ({
+        ...current,
+        [uuid]: { kind: 'error', message: err instanceof Error ? err.message : `${action} failed` },
+      }));
+    } finally {
+      setBusy(({ [uuid]: _done, ...rest }) => rest);
+    }
+  };
+
+  const redeploy = (installation: InstallationSummary) =>
+    runAction(installation.uuid, 'Redeploy', async () => {
+      const response = await fetch(`/api/installations/${installation.uuid}/redeploy`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) return readError(response, 'Redeploy failed');
+
+      const data = await response.json();
+      return { kind: 'success', message: `Redeploy started: ${data.data.deploymentUrl}` };
+    });
+
+  const runSetupSteps = (installation: InstallationSummary) =>
+    runAction(installation.uuid, 'Setup', async () => {
+      const response = await fetch('/api/bootstrap', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ configurationId: installation.installation_id }),
+      });
+      if (!response.ok) return readError(response, 'Setup steps failed');
+
+      const data = await response.json();
+      const failed = (data.data.steps as BootstrapChecklistItem[]).find(step => step.status === 'failed');
+      return failed
+        ? { kind: 'error', message: `${failed.label} failed: ${failed.error || 'Unknown error'}` }
+        : { kind: 'success', message: 'Setup steps completed' };
+    });
+
+  const openRotation = (uuid: string) => {
+    setGenerateSecrets([]);
+    setReplacementKeys({});
+    setRotating(rotating === uuid ? null : uuid);
+  };
+
+  const rotateSecrets = (installation: InstallationSummary) =>
+    runAction(installation.uuid, 'Rotate', async () => {
+      const values = Object.fromEntries(Object.entries(replacementKeys).filter(([, value]) => value?.trim()));
+      const response = await fetch(`/api/installations/${installation.uuid}/rotate-secrets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ generate: generateSecrets, values }),
+      });
+      if (!response.ok) return readError(response, 'Secret rotation failed');
+
+      setRotating(null);
+      setReplacementKeys({});
+      const data = await response.json();
+      const names = data.data.rotated.map((key: string) => SECRET_LABELS[key]).join(', ');
+      return { kind: 'success', message: `Rotated ${names}. Redeploy started: ${data.data.deploymentUrl}` };
+    });
+
+  const uninstall = (installation: InstallationSummary) =>
+    runAction(installation.uuid, 'Uninstall', async () => {
+      setConfirmingUninstall(null);
+      const response = await fetch(
+        `/api/installations/${installation.uuid}?removeEnvVars=${removeEnvVars}`,
+        { method: 'DELETE' }
+      );
+      if (!response.ok) return readError(response, 'Uninstall failed');
+
+      const data = await response.json();
+      const removed = data.data.envVarsRemoved.length;
+      return {
+        kind: 'success',
+        message: removed > 0 ? `Uninstalled and removed ${removed} environment variables` : 'Uninstalled',
+      };
+    });
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-red-600">Unable to Load Installations</h1>
+          <p className="mt-2 text-gray-600">{loadError}</p>
+          {loadError === SESSION_EXPIRED_MESSAGE && (
+            <a href={signInUrl()} className="mt-4 inline-block text-blue-600 hover:underline font-medium">Sign in again</a>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (!installations) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white shadow rounded-lg p-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Installations</h1>
+          <p className="text-gray-600 mb-8">Assistant Servers deployed by this integration</p>
+
+          {installations.length === 0 && (
+            <p className="text-gray-600">No installations yet.</p>
+          )}
+
+          <div className="space-y-6">
+            {installations.map(installation => {
+              const deployment = installation.latest_deployment;
+              const notice = notices[installation.uuid];
+              const running = busy[installation.uuid];
+              const deployed = installation.status === 'installed' || installation.status === 'failed';
+
+              return (
+                <div key={installation.uuid} className="border border-gray-200 rounded-lg p-6">
+                  <div className="flex items-start justify-between gap-4 mb-4">
+                    <div>
+                      <a href={`/installations/${installation.uuid}`} className="text-xl font-semibold text-gray-900 hover:underline">
+                        {installation.vercel_project_name || installation.app_name}
+                      </a>
+                      <p className="text-xs text-gray-500">Configuration {installation.installation_id}</p>
+                    </div>
+                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_STYLES[installation.status]}`}>
+                      {STATUS_LABELS[installation.status]}
+                    </span>
+                  </div>
+
+                  <div className="space-y-1 text-sm mb-4">
+                    <p>
+                      <strong>Live URL:</strong>{' '}
+                      {installation.deployment_url ? (
+                        <a href={installation.deployment_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline font-medium">
+                          {installation.deployment_url}
+                        </a>
+                      ) : '—'}
+                    </p>
+                    <p>
+                      <strong>Latest Deployment:</strong>{' '}
+                      {deployment ? (
+                        <>
+                          <span className={STATE_STYLES[deployment.state] || 'text-gray-600'}>{STATE_LABELS[deployment.state] || deployment.state}</span>
+                          <span className="text-gray-500"> · {formatDate(deployment.created_at)}</span>
+                        </>
+                      ) : 'None'}
+                    </p>
+                    {deployment?.error_message && (
+                      <p className="text-red-700"><strong>Failure Reason:</strong> {deployment.error_message}</p>
+                    )}
+                  </div>
+
+                  {notice && (
+                    <div className={`mb-4 px-4 py-3 rounded-md text-sm border ${notice.kind === 'success' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-700'}`}>
+                      {notice.code && <p className="font-semibold">{ERROR_CODES[notice.code].title}</p>}
+                      <p>{notice.message}</p>
+                      {notice.message === SESSION_EXPIRED_MESSAGE && (
+                        <a href={signInUrl()} className="mt-1 inline-block font-medium underline">Sign in again</a>
+                      )}
+                      {notice.code && (
+                        <p className="mt-1"><strong>How to fix:</strong> {ERROR_CODES[notice.code].remediation}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {installation.status === 'pending' && (
+                    <a
+                      href={`/configure?configurationId=${encodeURIComponent(installation.installation_id)}`}
+                      className="inline-block bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800 text-sm font-medium transition-colors"
+                    >
+                      Configure →
+                    </a>
+                  )}
+
+                  {deployed && (
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => redeploy(installation)}
+                        disabled={Boolean(running)}
+                        className="bg-black text-white py-2 px-4 rounded-md hover:bg-gray-800 disabled:bg-gray-400 disabled:cursor-not-allowed text-sm font-medium transition-colors"
+                      >
+                        {running === 'Redeploy' ? 'Redeploying...' : 'Redeploy'}
+                      </button>
+                      <button
+                        onClick={() => setExpanded(expanded === installation.uuid ? null : installation.uuid)}
+                        className="border border-gray-300 py-2 px-4 rounded-md hover:bg-gray-50 text-sm font-medium transition-colors"
+                      >
+                        {expanded === installation.uuid ? 'Hide Setup Endpoints' : 'Setup Endpoints'}
+                      </button>
+                      <button
+                        onClick={() => openRotation(installation.uuid)}
+                        className="border border-gray-300 py-2 px-4 rounded-md hover:bg-gray-50 text-sm font-medium transition-colors"
+                      >
+                        {rotating === installation.uuid ? 'Hide Secret Rotation' : 'Rotate Secrets'}
+                      </button>
+                      <button
+                        onClick={() => {
+                          setRemoveEnvVars(false);
+                          setConfirmingUninstall(installation.uuid);
+                        }}
+                        disabled={Boolean(running)}
+                        className="border border-red-300 text-red-700 py-2 px-4 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-colors"
+                      >
+                        {running === 'Uninstall' ? 'Uninstalling...' : 'Uninstall'}
+                      </button>
+                    </div>
+                  )}
+
+                  {expanded === installation.uuid && deployed && (
+                    <div className="mt-4 bg-gray-50 border border-gray-200 rounded-md p-4">
+                      <p className="text-xs text-gray-600 mb-3">
+                        Called once after the first deployment with the migration key, which is not shown here.
+                      </p>
+                      <div className="space-y-2">
+                        {installation.bootstrap.map(item => (
+                          <div key={item.step} className="flex items-center justify-between gap-2 text-xs">
+                            <div>
+                              <p className="font-semibold text-gray-700">{item.label}</p>
+                              <p className="font-mono text-gray-600 break-all">{item.endpoint || '—'}</p>
+                              {item.status === 'failed' && item.error && <p className="text-red-700">{item.error}</p>}
+                            </div>
+                            <span className={`font-medium ${STEP_STYLES[item.status]}`}>{STEP_LABELS[item.status]}</span>
+                          </div>
+                        ))}
+                      </div>
+                      {installation.bootstrap.some(item => item.status !== 'succeeded') && (
+                        <button
+                          onClick={() => runSetupSteps(installation)}
+                          disabled={Boolean(running)}
+                          className="mt-3 bg-black text-white py-1.5 px-3 rounded-md hover:bg-gray-800 disabled:bg-gray-400 disabled:cursor-not-allowed text-xs font-medium transition-colors"
+                        >
+                          {running === 'Setup' ? 'Running...' : 'Run Pending Steps'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  {rotating === installation.uuid && deployed && (
+                    <div className="mt-4 bg-gray-50 border border-gray-200 rounded-md p-4 text-sm">
+                      <p className="text-xs text-gray-600 mb-3">
+                        Only the selected values change on the project, then the Assistant Server is redeployed so they take effect.
+                      </p>
+                      <div className="space-y-3">
+                        {ROTATABLE_SECRETS.map(key => {
+                          const generated = (GENERATED_SECRETS as readonly string[]).includes(key);
+                          return (
+                            <div key={key}>
+                              <div className="flex items-center justify-between gap-2">
+                                {generated ? (
+                                  <label className="flex items-center gap-2 text-gray-800">
+                                    <input
+                                      type="checkbox"
+                                      checked={generateSecrets.includes(key)}
+                                      onChange={event => setGenerateSecrets(current =>
+                                        event.target.checked ? [...current, key] : current.filter(k => k !== key)
+                                      )}
+                                    />
+                                    Generate a new {SECRET_LABELS[key]}
+                                  </label>
+                                ) : (
+                                  <span className="text-gray-800">{SECRET_LABELS[key]}</span>
+                                )}
+                                <span className="text-xs text-gray-500">
+                                  Last rotated: {formatDate(installation.secrets_rotated_at?.[key])}
+                                </span>
+                              </div>
+                              {!generated && (
+                                <input
+                                  type="password"
+                                  value={replacementKeys[key] || ''}
+                                  onChange={event => setReplacementKeys(current => ({ ...current, [key]: event.target.value }))}
+                                  placeholder="New value (leave empty to keep the current one)"
+                                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-purple-500"
+                                />
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <button
+                        onClick={() => rotateSecrets(installation)}
+                        disabled={Boolean(running) || (generateSecrets.length === 0 && !Object.values(replacementKeys).some(value => value?.trim()))}
+                        className="mt-4 bg-black text-white py-1.5 px-3 rounded-md hover:bg-gray-800 disabled:bg-gray-400 disabled:cursor-not-allowed text-xs font-medium transition-colors"
+                      >
+                        {running === 'Rotate' ? 'Rotating...' : 'Rotate and Redeploy'}
+                      </button>
+                    </div>
+                  )}
+
+                  {confirmingUninstall === installation.uuid && (
+                    <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-4 text-sm">
+                      <p className="text-red-800 mb-2">
+                        This removes the integration from Vercel. The project and its deployments stay in your Vercel account.
+                      </p>
+                      <label className="flex items-center gap-2 text-red-800 mb-3">
+                        <input type="checkbox" checked={removeEnvVars} onChange={event => setRemoveEnvVars(event.target.checked)} />
+                        Also delete the environment variables the integration wrote to the project
+                      </label>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => uninstall(installation)}
+                          className="bg-red-600 text-white py-1.5 px-3 rounded-md hover:bg-red-700 text-xs font-medium transition-colors"
+                        >
+                          Confirm Uninstall
+                        </button>
+                        <button
+                          onClick={() => setConfirmingUninstall(null)}
+                          className="border border-gray-300 py-1.5 px-3 rounded-md hover:bg-white text-xs font-medium transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
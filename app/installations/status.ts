@@ -0,0 +1,62 @@
+// Labels and styles shared by the configure and installation pages
+
+export const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Sign in again to continue.';
+
+// Renews the session through Vercel, then comes back to the current page
+export const signInUrl = () =>
+  `/api/session/login?returnTo=${encodeURIComponent(window.location.pathname + window.location.search)}`;
+
+export const STATUS_LABELS: Record<string, string> = {
+  pending: 'Not configured',
+  installed: 'Installed',
+  failed: 'Deployment failed',
+  uninstalled: 'Uninstalled',
+};
+
+export const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  installed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  uninstalled: 'bg-gray-100 text-gray-500',
+};
+
+export const STATE_LABELS: Record<string, string> = {
+  QUEUED: 'Queued',
+  INITIALIZING: 'Initializing',
+  BUILDING: 'Building',
+  READY: 'Ready',
+  ERROR: 'Failed',
+  CANCELED: 'Canceled',
+};
+
+export const STATE_STYLES: Record<string, string> = {
+  QUEUED: 'text-gray-600',
+  INITIALIZING: 'text-orange-600',
+  BUILDING: 'text-orange-600',
+  READY: 'text-green-600',
+  ERROR: 'text-red-600',
+  CANCELED: 'text-gray-600',
+};
+
+export const STEP_LABELS: Record<string, string> = {
+  pending: 'Waiting',
+  running: 'Running',
+  succeeded: 'Done',
+  failed: 'Failed',
+};
+
+export const STEP_STYLES: Record<string, string> = {
+  pending: 'text-gray-500',
+  running: 'text-orange-600',
+  succeeded: 'text-green-600',
+  failed: 'text-red-600',
+};
+
+export const SECRET_LABELS: Record<string, string> = {
+  JWT_SECRET: 'JWT secret',
+  MIGRATION_SECRET_KEY: 'Migration secret key',
+  OPENAI_API_KEY: 'OpenAI API key',
+  SUPABASE_SERVICE_KEY: 'Supabase service role key',
+};
+
+export const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleString() : '—');
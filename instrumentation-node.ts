@@ -0,0 +1,22 @@
+import { assertEncryptionConfigured } from './lib/encryption';
+import { assertSessionConfigured } from './lib/session';
+import { assertStorageConfigured } from './lib/adapters';
+import { assertRepoSourceConfigured } from './lib/git-source';
+import { assertMigrationsApplied, isMigrationCheckEnabled } from './lib/migrations';
+import { logger } from './lib/logger';
+
+// Startup checks for the Node.js runtime. Kept out of instrumentation.ts so none of these modules reach the edge bundle.
+export async function registerNode() {
+  // Fail at startup rather than on the first request that touches a token or session
+  assertEncryptionConfigured();
+  assertSessionConfigured();
+  assertStorageConfigured();
+  assertRepoSourceConfigured();
+
+  // Refuse to serve requests against a schema that is behind the code
+  if (isMigrationCheckEnabled()) {
+    await assertMigrationsApplied();
+  } else if (process.env.STORAGE_ADAPTER !== 'memory') {
+    logger.warn('DATABASE_URL is not set; skipping the schema migration check');
+  }
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // Imported only under this condition so webpack leaves the Node-only modules out of the edge build
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { registerNode } = await import('./instrumentation-node');
+    await registerNode();
+  }
+}
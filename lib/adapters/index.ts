@@ -0,0 +1,50 @@
+import { getSupabaseClient } from '../supabase';
+import { MemoryStorageAdapter } from './memory';
+import { PostgresStorageAdapter } from './postgres';
+import { SupabaseStorageAdapter } from './supabase';
+import { StorageAdapter } from './types';
+
+export type { StorageAdapter } from './types';
+export { MemoryStorageAdapter, PostgresStorageAdapter, SupabaseStorageAdapter };
+
+export const STORAGE_ADAPTERS = ['supabase', 'postgres', 'memory'] as const;
+export type StorageAdapterName = (typeof STORAGE_ADAPTERS)[number];
+
+let adapter: StorageAdapter | null = null;
+
+// STORAGE_ADAPTER picks the backend: supabase (default, SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY),
+// postgres (DATABASE_URL) or memory (nothing persisted, for local runs and tests)
+export function createStorageAdapter(name: string = process.env.STORAGE_ADAPTER || 'supabase'): StorageAdapter {
+  switch (name) {
+    case 'supabase':
+      return new SupabaseStorageAdapter(getSupabaseClient());
+    case 'postgres': {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        throw new Error('DATABASE_URL must be set when STORAGE_ADAPTER=postgres');
+      }
+      return new PostgresStorageAdapter({ connectionString });
+    }
+    case 'memory':
+      return new MemoryStorageAdapter();
+    default:
+      throw new Error(`Unknown STORAGE_ADAPTER "${name}". Expected one of: ${STORAGE_ADAPTERS.join(', ')}`);
+  }
+}
+
+export function getStorageAdapter(): StorageAdapter {
+  if (!adapter) {
+    adapter = createStorageAdapter();
+  }
+  return adapter;
+}
+
+// Swap the adapter at runtime (tests); pass null to go back to the env configuration
+export function setStorageAdapter(next: StorageAdapter | null): void {
+  adapter = next;
+}
+
+// Called on server start so an unknown adapter or missing connection settings fail fast
+export function assertStorageConfigured(): void {
+  getStorageAdapter();
+}
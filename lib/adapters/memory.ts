@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { Account, Deployment, Installation } from '@/types';
+import {
+  AccountFilter,
+  AccountLookup,
+  AccountUpdate,
+  DeploymentUpdate,
+  InstallationFilter,
+  InstallationLookup,
+  InstallationUpdate,
+  NewAccount,
+  NewDeployment,
+  NewInstallation,
+  StorageAdapter,
+} from './types';
+
+// Process-local storage for local development and tests. Data is lost on restart.
+// Rows are copied in and out so callers can't mutate stored state.
+export class MemoryStorageAdapter implements StorageAdapter {
+  private accounts: Account[] = [];
+  private installations: Installation[] = [];
+  private deployments: Deployment[] = [];
+  private nextId = { accounts: 1, installations: 1, deployments: 1 };
+
+  private now() {
+    return new Date().toISOString();
+  }
+
+  private findByScope(vercelUserId: string, vercelTeamId: string | null) {
+    return this.accounts.find(row =>
+      row.vercel_user_id === vercelUserId && (row.vercel_team_id ?? null) === vercelTeamId
+    );
+  }
+
+  // Accounts
+  async upsertAccount(account: NewAccount): Promise<Account> {
+    const existing = this.findByScope(account.vercel_user_id, account.vercel_team_id);
+    if (existing) {
+      Object.assign(existing, { access_token: account.access_token, updated_at: this.now() });
+      return { ...existing };
+    }
+
+    const row: Account = {
+      id: this.nextId.accounts++,
+      uuid: crypto.randomUUID(),
+      vercel_user_id: account.vercel_user_id,
+      vercel_team_id: account.vercel_team_id,
+      access_token: account.access_token,
+      created_at: this.now(),
+      updated_at: this.now(),
+    };
+    this.accounts.push(row);
+    return { ...row };
+  }
+
+  async findAccount(field: AccountLookup, value: string | number): Promise<Account | null> {
+    const row = this.accounts.find(account => account[field] === value);
+    return row ? { ...row } : null;
+  }
+
+  async findAccountByScope(vercelUserId: string, vercelTeamId: string | null): Promise<Account | null> {
+    const row = this.findByScope(vercelUserId, vercelTeamId);
+    return row ? { ...row } : null;
+  }
+
+  async listAccounts(filter: AccountFilter = {}): Promise<Account[]> {
+    return this.accounts
+      .filter(row => filter.vercel_user_id === undefined || row.vercel_user_id === filter.vercel_user_id)
+      .map(row => ({ ...row }));
+  }
+
+  async updateAccount(id: number, updates: AccountUpdate): Promise<void> {
+    const row = this.accounts.find(account => account.id === id);
+    if (row) {
+      Object.assign(row, updates, { updated_at: this.now() });
+    }
+  }
+
+  // Installations
+  async insertInstallation(installation: NewInstallation): Promise<Installation> {
+    if (this.installations.some(row => row.installation_id === installation.installation_id)) {
+      throw new Error(`Installation ${installation.installation_id} already exists`);
+    }
+
+    const row: Installation = {
+      id: this.nextId.installations++,
+      uuid: crypto.randomUUID(),
+      ...installation,
+      vercel_project_id: null,
+      vercel_project_name: null,
+      deployment_url: null,
+      deployment_id: null,
+      migration_secret_key: null,
+      bootstrap_steps: {},
+      secrets_rotated_at: {},
+      created_at: this.now(),
+      updated_at: this.now(),
+    };
+    this.installations.push(row);
+    return structuredClone(row);
+  }
+
+  async findInstallation(field: InstallationLookup, value: string): Promise<Installation | null> {
+    const row = this.installations.find(installation => installation[field] === value);
+    return row ? structuredClone(row) : null;
+  }
+
+  async listInstallations(filter: InstallationFilter = {}): Promise<Installation[]> {
+    return this.installations
+      .filter(row =>
+        Object.entries(filter).every(([column, value]) =>
+          value === undefined || row[column as keyof InstallationFilter] === value
+        )
+      )
+      .map(row => structuredClone(row));
+  }
+
+  async updateInstallation(uuid: string, updates: InstallationUpdate): Promise<Installation | null> {
+    const row = this.installations.find(installation => installation.uuid === uuid);
+    if (!row) return null;
+
+    Object.assign(row, structuredClone(updates), { updated_at: this.now() });
+    return structuredClone(row);
+  }
+
+  // Deployments
+  async insertDeployment(deployment: NewDeployment): Promise<Deployment> {
+    if (this.deployments.some(row => row.vercel_deployment_id === deployment.vercel_deployment_id)) {
+      throw new Error(`Deployment ${deployment.vercel_deployment_id} already exists`);
+    }
+
+    const row: Deployment = {
+      id: this.nextId.deployments++,
+      uuid: crypto.randomUUID(),
+      ...structuredClone(deployment),
+      error_message: null,
+      ready_at: null,
+      created_at: this.now(),
+      updated_at: this.now(),
+    };
+    this.deployments.push(row);
+    return structuredClone(row);
+  }
+
+  async updateDeploymentByVercelId(vercelDeploymentId: string, updates: DeploymentUpdate): Promise<Deployment | null> {
+    const row = this.deployments.find(deployment => deployment.vercel_deployment_id === vercelDeploymentId);
+    if (!row) return null;
+
+    Object.assign(row, updates, { updated_at: this.now() });
+    return structuredClone(row);
+  }
+
+  async listDeployments(
+    installationId: number,
+    options: { limit: number; offset: number }
+  ): Promise<{ deployments: Deployment[]; total: number }> {
+    // Newest first; ids break ties between rows created in the same millisecond
+    const rows = this.deployments
+      .filter(row => row.installation_id === installationId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id);
+
+    return {
+      deployments: rows.slice(options.offset, options.offset + options.limit).map(row => structuredClone(row)),
+      total: rows.length,
+    };
+  }
+}
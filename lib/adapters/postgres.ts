@@ -0,0 +1,199 @@
+import { Pool, PoolConfig } from 'pg';
+import { validate as isUuid } from 'uuid';
+import { Account, Deployment, Installation } from '@/types';
+import {
+  AccountFilter,
+  AccountLookup,
+  AccountUpdate,
+  DeploymentUpdate,
+  InstallationFilter,
+  InstallationLookup,
+  InstallationUpdate,
+  NewAccount,
+  NewDeployment,
+  NewInstallation,
+  StorageAdapter,
+} from './types';
+
+// Columns that may be written through update methods; anything else is ignored
+const ACCOUNT_COLUMNS = ['access_token'];
+const INSTALLATION_COLUMNS = [
+  'installation_id',
+  'account_id',
+  'app_name',
+  'vercel_project_id',
+  'vercel_project_name',
+  'deployment_url',
+  'deployment_id',
+  'migration_secret_key',
+  'bootstrap_steps',
+  'secrets_rotated_at',
+  'status',
+];
+const JSON_COLUMNS = ['bootstrap_steps', 'secrets_rotated_at'];
+const DEPLOYMENT_COLUMNS = ['state', 'error_message', 'ready_at'];
+
+// pg returns timestamps as Date objects; the rest of the app expects ISO strings like Supabase returns
+function toRow<T>(row: Record<string, unknown>): T {
+  const result: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    result[column] = value instanceof Date ? value.toISOString() : value;
+  }
+  return result as T;
+}
+
+// Build "col = $n" assignments for whitelisted columns, always bumping updated_at
+function buildSet(updates: object, columns: string[], firstParam: number) {
+  const assignments: string[] = [];
+  const values: unknown[] = [];
+
+  for (const [column, value] of Object.entries(updates)) {
+    if (!columns.includes(column) || value === undefined) continue;
+    values.push(JSON_COLUMNS.includes(column) ? JSON.stringify(value) : value);
+    assignments.push(`${column} = $${firstParam + values.length - 1}`);
+  }
+  assignments.push('updated_at = NOW()');
+
+  return { sql: assignments.join(', '), values };
+}
+
+// Talks to any Postgres database with the migrations in supabase/ applied (DATABASE_URL)
+export class PostgresStorageAdapter implements StorageAdapter {
+  private pool: Pool;
+
+  constructor(config: PoolConfig) {
+    this.pool = new Pool(config);
+  }
+
+  private async query<T>(sql: string, values: unknown[] = []): Promise<T[]> {
+    const result = await this.pool.query(sql, values);
+    return result.rows.map(row => toRow<T>(row));
+  }
+
+  // Accounts
+  async upsertAccount(account: NewAccount): Promise<Account> {
+    const [row] = await this.query<Account>(
+      `INSERT INTO accounts (vercel_user_id, vercel_team_id, access_token)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (vercel_user_id, scope)
+       DO UPDATE SET access_token = EXCLUDED.access_token, updated_at = NOW()
+       RETURNING *`,
+      [account.vercel_user_id, account.vercel_team_id, account.access_token]
+    );
+    return row;
+  }
+
+  async findAccount(field: AccountLookup, value: string | number): Promise<Account | null> {
+    // `field` is a fixed union of column names, never user input. Postgres rejects a malformed
+    // uuid with an error (22P02), so those are answered as not found like the other adapters do.
+    if (field === 'uuid' && !isUuid(String(value))) return null;
+    const [row] = await this.query<Account>(`SELECT * FROM accounts WHERE ${field} = $1`, [value]);
+    return row || null;
+  }
+
+  async findAccountByScope(vercelUserId: string, vercelTeamId: string | null): Promise<Account | null> {
+    const [row] = await this.query<Account>(
+      'SELECT * FROM accounts WHERE vercel_user_id = $1 AND vercel_team_id IS NOT DISTINCT FROM $2',
+      [vercelUserId, vercelTeamId]
+    );
+    return row || null;
+  }
+
+  async listAccounts(filter: AccountFilter = {}): Promise<Account[]> {
+    if (filter.vercel_user_id !== undefined) {
+      return this.query<Account>('SELECT * FROM accounts WHERE vercel_user_id = $1 ORDER BY id', [filter.vercel_user_id]);
+    }
+    return this.query<Account>('SELECT * FROM accounts ORDER BY id');
+  }
+
+  async updateAccount(id: number, updates: AccountUpdate): Promise<void> {
+    const set = buildSet(updates, ACCOUNT_COLUMNS, 2);
+    await this.query(`UPDATE accounts SET ${set.sql} WHERE id = $1`, [id, ...set.values]);
+  }
+
+  // Installations
+  async insertInstallation(installation: NewInstallation): Promise<Installation> {
+    const [row] = await this.query<Installation>(
+      `INSERT INTO installations (installation_id, account_id, app_name, status)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [installation.installation_id, installation.account_id, installation.app_name, installation.status]
+    );
+    return row;
+  }
+
+  async findInstallation(field: InstallationLookup, value: string): Promise<Installation | null> {
+    if (field === 'uuid' && !isUuid(value)) return null;
+    const [row] = await this.query<Installation>(`SELECT * FROM installations WHERE ${field} = $1`, [value]);
+    return row || null;
+  }
+
+  async listInstallations(filter: InstallationFilter = {}): Promise<Installation[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (filter.account_id !== undefined) {
+      values.push(filter.account_id);
+      conditions.push(`account_id = $${values.length}`);
+    }
+    if (filter.vercel_project_id !== undefined) {
+      values.push(filter.vercel_project_id);
+      conditions.push(`vercel_project_id = $${values.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return this.query<Installation>(`SELECT * FROM installations ${where} ORDER BY id`, values);
+  }
+
+  async updateInstallation(uuid: string, updates: InstallationUpdate): Promise<Installation | null> {
+    if (!isUuid(uuid)) return null;
+    const set = buildSet(updates, INSTALLATION_COLUMNS, 2);
+    const [row] = await this.query<Installation>(
+      `UPDATE installations SET ${set.sql} WHERE uuid = $1 RETURNING *`,
+      [uuid, ...set.values]
+    );
+    return row || null;
+  }
+
+  // Deployments
+  async insertDeployment(deployment: NewDeployment): Promise<Deployment> {
+    const [row] = await this.query<Deployment>(
+      `INSERT INTO deployments (installation_id, vercel_deployment_id, git_ref, target, env_var_keys, state)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        deployment.installation_id,
+        deployment.vercel_deployment_id,
+        deployment.git_ref,
+        deployment.target,
+        deployment.env_var_keys,
+        deployment.state,
+      ]
+    );
+    return row;
+  }
+
+  async updateDeploymentByVercelId(vercelDeploymentId: string, updates: DeploymentUpdate): Promise<Deployment | null> {
+    const set = buildSet(updates, DEPLOYMENT_COLUMNS, 2);
+    const [row] = await this.query<Deployment>(
+      `UPDATE deployments SET ${set.sql} WHERE vercel_deployment_id = $1 RETURNING *`,
+      [vercelDeploymentId, ...set.values]
+    );
+    return row || null;
+  }
+
+  async listDeployments(
+    installationId: number,
+    options: { limit: number; offset: number }
+  ): Promise<{ deployments: Deployment[]; total: number }> {
+    const [deployments, [count]] = await Promise.all([
+      this.query<Deployment>(
+        'SELECT * FROM deployments WHERE installation_id = $1 ORDER BY created_at DESC LIMIT $2 OFFSET $3',
+        [installationId, options.limit, options.offset]
+      ),
+      this.query<{ total: string }>('SELECT COUNT(*) AS total FROM deployments WHERE installation_id = $1', [installationId]),
+    ]);
+
+    return { deployments, total: Number(count.total) };
+  }
+}
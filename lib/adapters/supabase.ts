@@ -0,0 +1,184 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Account, Deployment, Installation } from '@/types';
+import {
+  AccountFilter,
+  AccountLookup,
+  AccountUpdate,
+  DeploymentUpdate,
+  InstallationFilter,
+  InstallationLookup,
+  InstallationUpdate,
+  NewAccount,
+  NewDeployment,
+  NewInstallation,
+  StorageAdapter,
+} from './types';
+
+export class SupabaseStorageAdapter implements StorageAdapter {
+  constructor(private readonly client: SupabaseClient) {}
+
+  // Accounts
+  async upsertAccount(account: NewAccount): Promise<Account> {
+    const { data, error } = await this.client
+      .from('accounts')
+      .upsert({
+        ...account,
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: 'vercel_user_id,scope'
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Account;
+  }
+
+  async findAccount(field: AccountLookup, value: string | number): Promise<Account | null> {
+    const { data, error } = await this.client
+      .from('accounts')
+      .select('*')
+      .eq(field, value)
+      .single();
+
+    if (error || !data) return null;
+    return data as Account;
+  }
+
+  async findAccountByScope(vercelUserId: string, vercelTeamId: string | null): Promise<Account | null> {
+    const query = this.client
+      .from('accounts')
+      .select('*')
+      .eq('vercel_user_id', vercelUserId);
+
+    const { data, error } = await (vercelTeamId === null
+      ? query.is('vercel_team_id', null)
+      : query.eq('vercel_team_id', vercelTeamId)
+    ).single();
+
+    if (error || !data) return null;
+    return data as Account;
+  }
+
+  async listAccounts(filter: AccountFilter = {}): Promise<Account[]> {
+    let query = this.client
+      .from('accounts')
+      .select('*');
+
+    for (const [column, value] of Object.entries(filter)) {
+      if (value !== undefined) query = query.eq(column, value);
+    }
+
+    const { data, error } = await query.order('id');
+
+    if (error) throw error;
+    return (data || []) as Account[];
+  }
+
+  async updateAccount(id: number, updates: AccountUpdate): Promise<void> {
+    const { error } = await this.client
+      .from('accounts')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Installations
+  async insertInstallation(installation: NewInstallation): Promise<Installation> {
+    const { data, error } = await this.client
+      .from('installations')
+      .insert(installation)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Installation;
+  }
+
+  async findInstallation(field: InstallationLookup, value: string): Promise<Installation | null> {
+    const { data, error } = await this.client
+      .from('installations')
+      .select('*')
+      .eq(field, value)
+      .single();
+
+    if (error || !data) return null;
+    return data as Installation;
+  }
+
+  async listInstallations(filter: InstallationFilter = {}): Promise<Installation[]> {
+    let query = this.client
+      .from('installations')
+      .select('*');
+
+    for (const [column, value] of Object.entries(filter)) {
+      if (value !== undefined) query = query.eq(column, value);
+    }
+
+    const { data, error } = await query.order('id');
+
+    if (error) throw error;
+    return (data || []) as Installation[];
+  }
+
+  async updateInstallation(uuid: string, updates: InstallationUpdate): Promise<Installation | null> {
+    const { data, error } = await this.client
+      .from('installations')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('uuid', uuid)
+      .select()
+      .single();
+
+    if (error || !data) return null;
+    return data as Installation;
+  }
+
+  // Deployments
+  async insertDeployment(deployment: NewDeployment): Promise<Deployment> {
+    const { data, error } = await this.client
+      .from('deployments')
+      .insert(deployment)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Deployment;
+  }
+
+  async updateDeploymentByVercelId(vercelDeploymentId: string, updates: DeploymentUpdate): Promise<Deployment | null> {
+    const { data, error } = await this.client
+      .from('deployments')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('vercel_deployment_id', vercelDeploymentId)
+      .select()
+      .single();
+
+    if (error || !data) return null;
+    return data as Deployment;
+  }
+
+  async listDeployments(
+    installationId: number,
+    options: { limit: number; offset: number }
+  ): Promise<{ deployments: Deployment[]; total: number }> {
+    const { data, error, count } = await this.client
+      .from('deployments')
+      .select('*', { count: 'exact' })
+      .eq('installation_id', installationId)
+      .order('created_at', { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) throw error;
+    return { deployments: (data || []) as Deployment[], total: count || 0 };
+  }
+}
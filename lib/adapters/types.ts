@@ -0,0 +1,54 @@
+import { Account, Deployment, Installation } from '@/types';
+
+// Persistence operations behind lib/storage.ts. Adapters store values as given;
+// encryption of tokens and secrets happens in lib/storage.ts before they get here.
+
+export type NewAccount = Pick<Account, 'vercel_user_id' | 'access_token'> & {
+  vercel_team_id: string | null;
+};
+
+// The user and team identify the account's scope and never change
+export type AccountUpdate = Partial<Pick<Account, 'access_token'>>;
+
+export type AccountLookup = 'id' | 'uuid';
+
+export type AccountFilter = Partial<Pick<Account, 'vercel_user_id'>>;
+
+export type NewInstallation = Pick<Installation, 'installation_id' | 'account_id' | 'app_name' | 'status'>;
+
+export type InstallationLookup = 'uuid' | 'installation_id';
+
+export type InstallationFilter = Partial<Pick<Installation, 'account_id' | 'vercel_project_id'>>;
+
+export type InstallationUpdate = Partial<Omit<Installation, 'id' | 'uuid' | 'created_at' | 'updated_at'>>;
+
+export type NewDeployment = Pick<
+  Deployment,
+  'installation_id' | 'vercel_deployment_id' | 'git_ref' | 'target' | 'env_var_keys' | 'state'
+>;
+
+export type DeploymentUpdate = Partial<Pick<Deployment, 'state' | 'error_message' | 'ready_at'>>;
+
+export interface StorageAdapter {
+  // Insert, or replace the token of the account with the same vercel_user_id and vercel_team_id
+  // (a null team is the user's personal scope)
+  upsertAccount(account: NewAccount): Promise<Account>;
+  // Lookups by uuid return null for a value that is not a UUID, as for an unknown one
+  findAccount(field: AccountLookup, value: string | number): Promise<Account | null>;
+  findAccountByScope(vercelUserId: string, vercelTeamId: string | null): Promise<Account | null>;
+  listAccounts(filter?: AccountFilter): Promise<Account[]>; // Ordered by id
+  updateAccount(id: number, updates: AccountUpdate): Promise<void>;
+
+  insertInstallation(installation: NewInstallation): Promise<Installation>;
+  findInstallation(field: InstallationLookup, value: string): Promise<Installation | null>;
+  listInstallations(filter?: InstallationFilter): Promise<Installation[]>; // Ordered by id
+  updateInstallation(uuid: string, updates: InstallationUpdate): Promise<Installation | null>;
+
+  insertDeployment(deployment: NewDeployment): Promise<Deployment>;
+  updateDeploymentByVercelId(vercelDeploymentId: string, updates: DeploymentUpdate): Promise<Deployment | null>;
+  // Newest first
+  listDeployments(
+    installationId: number,
+    options: { limit: number; offset: number }
+  ): Promise<{ deployments: Deployment[]; total: number }>;
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AppError, ERROR_CODES } from './errors';
+import { VercelAPIError } from './vercel-api';
+
+const ENV_ENDPOINT = /\/projects\/[^/]+\/env/;
+const ENV_CONFLICT_CODES = /ENV_CONFLICT|ENV_ALREADY_EXISTS|conflict/i;
+const GIT_ERROR_CODES = /git|repo/i;
+const PROJECT_ENDPOINT = /\/projects\/|^POST \/v13\/deployments$/;
+
+// Map whatever a deploy step threw onto one of the stable error codes
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+  if (error instanceof z.ZodError) {
+    return new AppError('VALIDATION_FAILED', 'Request validation failed', error.errors);
+  }
+  // Thrown by request.json() for a malformed body
+  if (error instanceof SyntaxError) {
+    return new AppError('VALIDATION_FAILED', 'Request body is not valid JSON');
+  }
+  if (error instanceof VercelAPIError) return fromVercelError(error);
+  return new AppError('DEPLOYMENT_FAILED', error instanceof Error ? error.message : 'Unknown error');
+}
+
+function fromVercelError(error: VercelAPIError): AppError {
+  const { status, code = '', endpoint, message } = error;
+
+  // Vercel answers a revoked or expired token with 403 + invalidToken rather than 401
+  if (status === 401 || (status === 403 && error.invalidToken)) return new AppError('TOKEN_REVOKED', message);
+  if (status === 403) return new AppError('MISSING_SCOPE', message);
+  if (status === 429) return new AppError('RATE_LIMITED', message);
+  if (status === undefined || status >= 500) return new AppError('VERCEL_UNAVAILABLE', message);
+
+  if (GIT_ERROR_CODES.test(code)) return new AppError('GIT_REPO_INACCESSIBLE', message);
+  if (ENV_ENDPOINT.test(endpoint) && (status === 409 || ENV_CONFLICT_CODES.test(code))) {
+    return new AppError('ENV_CONFLICT', message);
+  }
+  if (status === 404 && PROJECT_ENDPOINT.test(endpoint)) return new AppError('PROJECT_NOT_FOUND', message);
+
+  return new AppError('DEPLOYMENT_FAILED', message);
+}
+
+export function errorResponse(error: AppError) {
+  return NextResponse.json(
+    {
+      error: ERROR_CODES[error.code].title,
+      code: error.code,
+      message: error.message,
+      ...(error.details !== undefined ? { details: error.details } : {}),
+    },
+    { status: error.status }
+  );
+}
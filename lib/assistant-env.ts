@@ -0,0 +1,117 @@
+import { AssistantSettings, DeploymentConfig, DeepPartial, RotatableSecret } from '@/types';
+
+// Models the assistant server can be configured with
+export const ASSISTANT_MODELS = [
+  'gpt-4o-mini',
+  'gpt-4o',
+  'gpt-4.1-mini',
+  'gpt-4.1',
+  'gpt-4-turbo',
+  'gpt-3.5-turbo',
+] as const;
+
+export const ASSISTANT_LIMITS = {
+  temperature: { min: 0, max: 2 },
+  maxTokens: { min: 1, max: 16384 },
+  nameLength: 100,
+};
+
+export const DEFAULT_ASSISTANT_SETTINGS: AssistantSettings = {
+  model: 'gpt-4o-mini',
+  temperature: 0.7,
+  maxTokens: 1000,
+  organizationName: 'Vezlo',
+  assistantName: 'Vezlo Assistant',
+};
+
+// Environment variables the integration writes to the assistant server project
+export const ASSISTANT_ENV_KEYS = [
+  'SUPABASE_URL',
+  'SUPABASE_SERVICE_KEY',
+  'SUPABASE_DB_HOST',
+  'SUPABASE_DB_NAME',
+  'SUPABASE_DB_USER',
+  'SUPABASE_DB_PASSWORD',
+  'OPENAI_API_KEY',
+  'AI_MODEL',
+  'AI_TEMPERATURE',
+  'AI_MAX_TOKENS',
+  'ORGANIZATION_NAME',
+  'ASSISTANT_NAME',
+  'MIGRATION_SECRET_KEY',
+  'JWT_SECRET',
+  'DEFAULT_ADMIN_EMAIL',
+  'DEFAULT_ADMIN_PASSWORD',
+] as const;
+
+export type AssistantEnvKey = (typeof ASSISTANT_ENV_KEYS)[number];
+
+// Secrets the integration generates itself and can regenerate on rotation
+export const GENERATED_SECRETS = ['JWT_SECRET', 'MIGRATION_SECRET_KEY'] as const satisfies readonly RotatableSecret[];
+
+// User-provided keys can only be rotated by passing the replacement
+export const ROTATABLE_SECRETS = [
+  ...GENERATED_SECRETS,
+  'OPENAI_API_KEY',
+  'SUPABASE_SERVICE_KEY',
+] as const satisfies readonly RotatableSecret[];
+
+export function buildAssistantEnvVariables(
+  config: DeploymentConfig,
+  secrets: { migrationSecretKey: string; jwtSecret: string; adminPassword: string }
+): Record<AssistantEnvKey, string> {
+  const assistant = { ...DEFAULT_ASSISTANT_SETTINGS, ...config.assistant };
+
+  return {
+    // User-provided credentials
+    SUPABASE_URL: config.supabase.url,
+    SUPABASE_SERVICE_KEY: config.supabase.serviceRoleKey,
+    SUPABASE_DB_HOST: config.database.host,
+    SUPABASE_DB_NAME: config.database.name,
+    SUPABASE_DB_USER: config.database.user,
+    SUPABASE_DB_PASSWORD: config.database.password,
+    OPENAI_API_KEY: config.openai.apiKey,
+    
+    // AI configuration
+    AI_MODEL: assistant.model,
+    AI_TEMPERATURE: String(assistant.temperature),
+    AI_MAX_TOKENS: String(assistant.maxTokens),
+    
+    // Organization settings
+    ORGANIZATION_NAME: assistant.organizationName,
+    ASSISTANT_NAME: assistant.assistantName,
+    
+    // Migration secret key
+    MIGRATION_SECRET_KEY: secrets.migrationSecretKey,
+    
+    // Authentication & Admin settings
+    JWT_SECRET: secrets.jwtSecret,
+    DEFAULT_ADMIN_EMAIL: config.admin.email,
+    DEFAULT_ADMIN_PASSWORD: secrets.adminPassword,
+  };
+}
+
+// Env vars affected by a partial config update; keys that weren't provided are left out
+export function buildAssistantEnvUpdates(
+  config: DeepPartial<DeploymentConfig>
+): Partial<Record<AssistantEnvKey, string>> {
+  const updates: Partial<Record<AssistantEnvKey, string | undefined>> = {
+    SUPABASE_URL: config.supabase?.url,
+    SUPABASE_SERVICE_KEY: config.supabase?.serviceRoleKey,
+    SUPABASE_DB_HOST: config.database?.host,
+    SUPABASE_DB_NAME: config.database?.name,
+    SUPABASE_DB_USER: config.database?.user,
+    SUPABASE_DB_PASSWORD: config.database?.password,
+    OPENAI_API_KEY: config.openai?.apiKey,
+    AI_MODEL: config.assistant?.model,
+    AI_TEMPERATURE: config.assistant?.temperature?.toString(),
+    AI_MAX_TOKENS: config.assistant?.maxTokens?.toString(),
+    ORGANIZATION_NAME: config.assistant?.organizationName,
+    ASSISTANT_NAME: config.assistant?.assistantName,
+    DEFAULT_ADMIN_EMAIL: config.admin?.email,
+  };
+
+  return Object.fromEntries(
+    Object.entries(updates).filter(([, value]) => value !== undefined)
+  ) as Partial<Record<AssistantEnvKey, string>>;
+}
@@ -0,0 +1,28 @@
+import { BootstrapChecklistItem, BootstrapStepName } from '@/types';
+
+// Shared with the configure page, so no server imports.
+// Steps run in this order; each one depends on the previous having succeeded
+export const BOOTSTRAP_STEPS: { step: BootstrapStepName; label: string; description: string }[] = [
+  {
+    step: 'migrate',
+    label: 'Migration',
+    description: 'Creates all necessary database tables and functions for the Assistant Server',
+  },
+  {
+    step: 'seed-default',
+    label: 'Seed Default Data',
+    description: 'Populates the database with default configuration data and initial settings',
+  },
+  {
+    step: 'generate-key',
+    label: 'Generate API Key',
+    description: 'Creates a default API key for src-to-kb library to send content to the Assistant Server',
+  },
+];
+
+// Checklist before any step has run
+export const PENDING_BOOTSTRAP_CHECKLIST: BootstrapChecklistItem[] = BOOTSTRAP_STEPS.map(step => ({
+  ...step,
+  status: 'pending',
+  attempts: 0,
+}));
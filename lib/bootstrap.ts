@@ -0,0 +1,123 @@
+import axios from 'axios';
+import { updateInstallation } from './storage';
+import { decrypt, encryptObject, decryptObject } from './encryption';
+import { logger, Logger } from './logger';
+import { BOOTSTRAP_STEPS } from './bootstrap-steps';
+import {
+  BootstrapChecklistItem,
+  BootstrapStepName,
+  BootstrapStepResult,
+  BootstrapSteps,
+  Installation,
+} from '@/types';
+
+const STEP_TIMEOUT_MS = 60000;
+
+// A step marked running for longer than this is assumed to have died and may be run again
+const STALE_RUNNING_MS = 2 * 60 * 1000;
+
+export function getAssistantBaseUrl(deploymentUrl: string): string {
+  return deploymentUrl.startsWith('http') ? deploymentUrl : `https://${deploymentUrl}`;
+}
+
+// Run every step that hasn't succeeded yet, stopping at the first failure so it can be retried
+export async function runBootstrap(installation: Installation, log: Logger = logger): Promise<BootstrapSteps> {
+  if (!installation.deployment_url || !installation.migration_secret_key) {
+    throw new Error('Installation has no deployment to bootstrap');
+  }
+
+  const baseUrl = getAssistantBaseUrl(installation.deployment_url);
+  const migrationKey = decrypt(installation.migration_secret_key);
+  const steps: BootstrapSteps = { ...(installation.bootstrap_steps || {}) };
+
+  for (const { step } of BOOTSTRAP_STEPS) {
+    const current = steps[step];
+    if (current?.status === 'succeeded') continue;
+    if (current?.status === 'running' && Date.now() - Date.parse(current.updatedAt) < STALE_RUNNING_MS) {
+      // Another request is already running this step
+      break;
+    }
+
+    const attempts = (current?.attempts || 0) + 1;
+    steps[step] = { status: 'running', attempts, updatedAt: new Date().toISOString() };
+    await updateInstallation(installation.uuid, { bootstrap_steps: steps });
+
+    steps[step] = await runStep(baseUrl, step, migrationKey, attempts);
+    await updateInstallation(installation.uuid, { bootstrap_steps: steps });
+
+    const result = steps[step]!;
+    if (result.status === 'failed') {
+      log.warn('Bootstrap step failed', { installationUuid: installation.uuid, step, attempts, httpStatus: result.httpStatus, error: result.error });
+    } else {
+      log.info('Bootstrap step succeeded', { installationUuid: installation.uuid, step, attempts });
+    }
+
+    if (steps[step]!.status === 'failed') break;
+  }
+
+  return steps;
+}
+
+async function runStep(
+  baseUrl: string,
+  step: BootstrapStepName,
+  migrationKey: string,
+  attempts: number
+): Promise<BootstrapStepResult> {
+  try {
+    const response = await axios.get(`${baseUrl}/api/${step}`, {
+      params: { key: migrationKey },
+      timeout: STEP_TIMEOUT_MS,
+    });
+
+    const now = new Date().toISOString();
+    return {
+      status: 'succeeded',
+      attempts,
+      httpStatus: response.status,
+      output: encryptObject(response.data),
+      completedAt: now,
+      updatedAt: now,
+    };
+  } catch (error) {
+    const response = axios.isAxiosError(error) ? error.response : undefined;
+    const data = response?.data;
+    const message = data?.error || data?.message || (error instanceof Error && error.message) || 'Unknown error';
+
+    return {
+      status: 'failed',
+      attempts,
+      httpStatus: response?.status,
+      error: typeof message === 'string' ? message : JSON.stringify(message),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+}
+
+// Checklist for display, with step outputs decrypted
+export function getBootstrapChecklist(installation: Installation): BootstrapChecklistItem[] {
+  const steps = installation.bootstrap_steps || {};
+
+  return BOOTSTRAP_STEPS.map(({ step, label, description }) => {
+    const result = steps[step];
+    let output: unknown;
+    if (result?.output) {
+      try {
+        output = decryptObject(result.output);
+      } catch {
+        output = undefined;
+      }
+    }
+
+    return {
+      step,
+      label,
+      description,
+      status: result?.status || 'pending',
+      attempts: result?.attempts || 0,
+      error: result?.error,
+      output,
+      completedAt: result?.completedAt,
+    };
+  });
+}
@@ -1,14 +1,144 @@
+import crypto from 'crypto';
 import CryptoJS from 'crypto-js';
 
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'default-key-change-in-production';
+// Envelope format: v1:<keyId>:<iv>:<authTag>:<ciphertext> (base64url parts, AES-256-GCM).
+// Anything without the prefix is a legacy CryptoJS passphrase ciphertext.
+const ENVELOPE_VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+const INSECURE_DEFAULT_KEY = 'default-key-change-in-production';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+interface Keyring {
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+  legacyKey?: string;
+}
+
+let keyring: Keyring | null = null;
+let defaultLegacyKeyAllowed = false;
+
+// Earlier versions fell back to INSECURE_DEFAULT_KEY when ENCRYPTION_KEY was unset. The server refuses
+// that key, but the re-encryption script may opt in to read those rows once and upgrade them.
+export function enableDefaultLegacyKey(): void {
+  defaultLegacyKeyAllowed = true;
+  keyring = null;
+}
+
+// ENCRYPTION_KEYS="<id>:<64 hex chars>,<id>:<64 hex chars>"; the first key (or ENCRYPTION_KEY_ID) encrypts,
+// all of them decrypt. ENCRYPTION_KEY is only used to read ciphertexts written before the envelope format.
+function loadKeyring(): Keyring {
+  const legacyKey = process.env.ENCRYPTION_KEY || (defaultLegacyKeyAllowed ? INSECURE_DEFAULT_KEY : undefined);
+  if (legacyKey === INSECURE_DEFAULT_KEY && !defaultLegacyKeyAllowed) {
+    throw new Error('ENCRYPTION_KEY is set to the insecure default value. Refusing to start.');
+  }
+
+  const rawKeys = process.env.ENCRYPTION_KEYS;
+  if (!rawKeys) {
+    throw new Error('ENCRYPTION_KEYS is not configured. Refusing to start.');
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of rawKeys.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [keyId, hexKey] = entry.split(':');
+    if (!keyId || !KEY_ID_PATTERN.test(keyId)) {
+      throw new Error(`Invalid encryption key ID "${keyId}" in ENCRYPTION_KEYS`);
+    }
+    if (!hexKey || !/^[0-9a-fA-F]{64}$/.test(hexKey)) {
+      throw new Error(`Encryption key "${keyId}" must be 32 bytes encoded as 64 hex characters`);
+    }
+    if (keys.has(keyId)) {
+      throw new Error(`Duplicate encryption key ID "${keyId}" in ENCRYPTION_KEYS`);
+    }
+    keys.set(keyId, Buffer.from(hexKey, 'hex'));
+  }
+
+  if (keys.size === 0) {
+    throw new Error('ENCRYPTION_KEYS does not contain any keys. Refusing to start.');
+  }
+
+  const currentKeyId = process.env.ENCRYPTION_KEY_ID || keys.keys().next().value!;
+  if (!keys.has(currentKeyId)) {
+    throw new Error(`ENCRYPTION_KEY_ID "${currentKeyId}" is not present in ENCRYPTION_KEYS`);
+  }
+
+  return { currentKeyId, keys, legacyKey: legacyKey || undefined };
+}
+
+function getKeyring(): Keyring {
+  if (!keyring) {
+    keyring = loadKeyring();
+  }
+  return keyring;
+}
+
+// Called on server start so a missing or default key fails fast instead of on first use
+export function assertEncryptionConfigured(): void {
+  getKeyring();
+}
 
 export function encrypt(text: string): string {
-  return CryptoJS.AES.encrypt(text, ENCRYPTION_KEY).toString();
+  const { currentKeyId, keys } = getKeyring();
+  const header = `${ENVELOPE_VERSION}:${currentKeyId}`;
+  const iv = crypto.randomBytes(IV_LENGTH);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, keys.get(currentKeyId)!, iv);
+  // Bind the header so the key ID can't be swapped without failing authentication
+  cipher.setAAD(Buffer.from(header, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [header, iv.toString('base64url'), authTag.toString('base64url'), ciphertext.toString('base64url')].join(':');
 }
 
 export function decrypt(ciphertext: string): string {
-  const bytes = CryptoJS.AES.decrypt(ciphertext, ENCRYPTION_KEY);
-  return bytes.toString(CryptoJS.enc.Utf8);
+  if (!isEnvelope(ciphertext)) {
+    return decryptLegacy(ciphertext);
+  }
+
+  const [version, keyId, iv, authTag, data] = ciphertext.split(':');
+  const key = getKeyring().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Unknown encryption key ID "${keyId}"`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+  decipher.setAAD(Buffer.from(`${version}:${keyId}`, 'utf8'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(data, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+function decryptLegacy(ciphertext: string): string {
+  const { legacyKey } = getKeyring();
+  if (!legacyKey) {
+    throw new Error('Legacy ciphertext found but ENCRYPTION_KEY is not configured');
+  }
+
+  const plaintext = CryptoJS.AES.decrypt(ciphertext, legacyKey).toString(CryptoJS.enc.Utf8);
+  if (!plaintext) {
+    throw new Error('Failed to decrypt legacy ciphertext');
+  }
+  return plaintext;
+}
+
+function isEnvelope(ciphertext: string): boolean {
+  const parts = ciphertext.split(':');
+  return parts.length === 5 && parts[0] === ENVELOPE_VERSION;
+}
+
+// True when the value was written with a legacy format or a key other than the current one
+export function needsReencryption(ciphertext: string): boolean {
+  if (!isEnvelope(ciphertext)) return true;
+  return ciphertext.split(':')[1] !== getKeyring().currentKeyId;
+}
+
+export function reencrypt(ciphertext: string): string {
+  return encrypt(decrypt(ciphertext));
 }
 
 export function encryptObject<T>(obj: T): string {
@@ -19,5 +149,3 @@ export function decryptObject<T>(ciphertext: string): T {
   const decrypted = decrypt(ciphertext);
   return JSON.parse(decrypted);
 }
-
-
@@ -0,0 +1,69 @@
+import { ErrorCode } from '@/types';
+
+// HTTP status and user-facing fix for each error code. Shared with the configure page, so no server imports.
+export const ERROR_CODES: Record<ErrorCode, { status: number; title: string; remediation: string }> = {
+  VALIDATION_FAILED: {
+    status: 400,
+    title: 'Invalid configuration',
+    remediation: 'Check the highlighted fields and run "Validate Credentials" before deploying again.',
+  },
+  INSTALLATION_NOT_FOUND: {
+    status: 404,
+    title: 'Installation not found',
+    remediation: 'This integration configuration no longer exists. Install the integration again from Vercel.',
+  },
+  TOKEN_REVOKED: {
+    status: 401,
+    title: 'Vercel access revoked',
+    remediation: 'The integration no longer has access to your Vercel account. Reinstall the integration to grant access again.',
+  },
+  MISSING_SCOPE: {
+    status: 403,
+    title: 'Missing permission',
+    remediation: 'The integration lacks a permission this step needs. Update the integration permissions in your Vercel dashboard, then retry.',
+  },
+  PROJECT_NOT_FOUND: {
+    status: 404,
+    title: 'Project not found',
+    remediation: 'The selected project was deleted or is no longer shared with the integration. Pick another project or create a new one.',
+  },
+  ENV_CONFLICT: {
+    status: 409,
+    title: 'Environment variable conflict',
+    remediation: 'The project already has a conflicting environment variable (for example a system or shared variable with the same name). Remove it in the project settings, then retry.',
+  },
+  GIT_REPO_INACCESSIBLE: {
+    status: 422,
+    title: 'Repository not accessible',
+    remediation: 'Vercel could not read the Assistant Server repository. Make sure the Vercel GitHub, GitLab or Bitbucket app for the host it is on can access it, then retry.',
+  },
+  RATE_LIMITED: {
+    status: 429,
+    title: 'Rate limited by Vercel',
+    remediation: 'Vercel is rate limiting requests for your account. Wait a minute and try again.',
+  },
+  VERCEL_UNAVAILABLE: {
+    status: 502,
+    title: 'Vercel unavailable',
+    remediation: 'Vercel did not respond. Check https://www.vercel-status.com and try again shortly.',
+  },
+  DEPLOYMENT_FAILED: {
+    status: 500,
+    title: 'Deployment failed',
+    remediation: 'An unexpected error occurred. Try again, and contact support with the request ID if it keeps failing.',
+  },
+};
+
+export class AppError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  readonly details?: unknown;
+
+  constructor(code: ErrorCode, message: string, details?: unknown) {
+    super(message);
+    this.name = 'AppError';
+    this.code = code;
+    this.status = ERROR_CODES[code].status;
+    this.details = details;
+  }
+}
@@ -0,0 +1,64 @@
+import { GitProvider, GitRepoSource } from '@/types';
+
+export const GIT_PROVIDERS: GitProvider[] = ['github', 'gitlab', 'bitbucket'];
+
+export const GIT_PROVIDER_NAMES: Record<GitProvider, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+};
+
+// Hosted services, used to infer the provider from a repository URL. Vercel imports
+// repositories by provider and path only, so no other host can be deployed from.
+const PROVIDER_HOSTS: Record<string, GitProvider> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+};
+
+const DEFAULT_REPO = 'your-org/assistant-server';
+
+function isGitProvider(value: string): value is GitProvider {
+  return (GIT_PROVIDERS as string[]).includes(value);
+}
+
+// Accepts "owner/repo" or a full repository URL such as https://gitlab.com/group/subgroup/repo.git.
+// An explicit provider wins over the one inferred from the URL; GitHub is the default.
+// URLs on any other host are rejected rather than deployed from the hosted service by mistake.
+export function parseRepoSource(repo: string, provider?: string): GitRepoSource {
+  if (provider && !isGitProvider(provider)) {
+    throw new Error(`Unknown git provider "${provider}". Use one of: ${GIT_PROVIDERS.join(', ')}.`);
+  }
+
+  let path = repo.trim();
+  let inferred: GitProvider | undefined;
+  if (/^https?:\/\//.test(path)) {
+    const url = new URL(path);
+    inferred = PROVIDER_HOSTS[url.hostname];
+    if (!inferred) {
+      const hosts = Object.keys(PROVIDER_HOSTS).join(', ');
+      throw new Error(`Unsupported repository host "${url.hostname}". Use a URL on ${hosts} or "owner/repo".`);
+    }
+    path = url.pathname;
+  }
+  path = path.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '');
+
+  if (!/^[^/]+\/.+$/.test(path)) {
+    throw new Error(`Invalid repository "${repo}". Expected "owner/repo" or a repository URL.`);
+  }
+
+  return { provider: (provider as GitProvider | undefined) || inferred || 'github', repo: path };
+}
+
+// Repository deployed as the assistant server: ASSISTANT_SERVER_REPO, on ASSISTANT_SERVER_REPO_PROVIDER if set
+export function getAssistantRepoSource(): GitRepoSource {
+  return parseRepoSource(
+    process.env.ASSISTANT_SERVER_REPO || DEFAULT_REPO,
+    process.env.ASSISTANT_SERVER_REPO_PROVIDER || undefined
+  );
+}
+
+// Called on server start so a typo in the provider or repository fails before the first deploy
+export function assertRepoSourceConfigured(): void {
+  getAssistantRepoSource();
+}
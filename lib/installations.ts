@@ -0,0 +1,18 @@
+import { listDeployments } from './storage';
+import { getAssistantBaseUrl, getBootstrapChecklist } from './bootstrap';
+import { Installation, InstallationSummary } from '@/types';
+
+// Strip internal ids and secrets, and attach the setup step endpoints and most recent deployment
+export async function summarizeInstallation(installation: Installation): Promise<InstallationSummary> {
+  const { id, account_id, migration_secret_key, bootstrap_steps, ...fields } = installation;
+  const { deployments } = await listDeployments(id, { limit: 1, offset: 0 });
+  const [latest] = deployments.map(({ id, installation_id, ...deployment }) => deployment);
+
+  const baseUrl = installation.deployment_url ? getAssistantBaseUrl(installation.deployment_url) : null;
+  const bootstrap = getBootstrapChecklist(installation).map(({ output, ...item }) => ({
+    ...item,
+    endpoint: baseUrl ? `${baseUrl}/api/${item.step}` : null,
+  }));
+
+  return { ...fields, bootstrap, latest_deployment: latest || null };
+}
@@ -0,0 +1,59 @@
+import { listAccounts, listInstallations, updateAccountToken, updateInstallation } from './storage';
+import { needsReencryption, reencrypt } from './encryption';
+
+export interface ReencryptionReport {
+  total: number;
+  upgraded: number;
+  unchanged: number;
+  failed: string[]; // UUIDs of rows that could not be decrypted
+}
+
+// Upgrade every stored account token to the current encryption key
+export async function reencryptAccountTokens(): Promise<ReencryptionReport> {
+  const report: ReencryptionReport = { total: 0, upgraded: 0, unchanged: 0, failed: [] };
+
+  for (const account of await listAccounts()) {
+    if (!account.access_token) continue;
+    report.total++;
+
+    if (!needsReencryption(account.access_token)) {
+      report.unchanged++;
+      continue;
+    }
+
+    try {
+      await updateAccountToken(account.id, reencrypt(account.access_token));
+      report.upgraded++;
+    } catch {
+      report.failed.push(account.uuid);
+    }
+  }
+
+  return report;
+}
+
+// Upgrade the stored migration secret keys the same way
+export async function reencryptMigrationSecrets(): Promise<ReencryptionReport> {
+  const report: ReencryptionReport = { total: 0, upgraded: 0, unchanged: 0, failed: [] };
+
+  for (const installation of await listInstallations()) {
+    if (!installation.migration_secret_key) continue;
+    report.total++;
+
+    if (!needsReencryption(installation.migration_secret_key)) {
+      report.unchanged++;
+      continue;
+    }
+
+    try {
+      await updateInstallation(installation.uuid, {
+        migration_secret_key: reencrypt(installation.migration_secret_key),
+      });
+      report.upgraded++;
+    } catch {
+      report.failed.push(installation.uuid);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,134 @@
+// JSON-lines logger. Every entry passes through redact() so credentials never reach the log sink.
+import { isAxiosError } from 'axios';
+import { REQUEST_ID_HEADER } from './request-id';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(bindings: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const SILENT = 'silent'; // LOG_LEVEL=silent turns logging off (tests)
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+// Matched against object keys after toSnakeCase(), so `accessToken`, `access_token` and `ACCESS_TOKEN` all
+// match but `maxTokens` doesn't; the sensitive word has to be the last segment. `value` covers env var
+// { key, value } pairs.
+const SENSITIVE_KEY_PATTERN =
+  /^(authorization|cookie|set_cookie|value)$|(^|_)(token|secret|password|passwd|credentials?|(api|private|secret|service|service_role)_key)$/;
+
+// Matched inside string values
+const SENSITIVE_VALUE_PATTERNS: [RegExp, string][] = [
+  [/(Bearer|Basic)\s+[^\s"',]+/gi, `$1 ${REDACTED}`],
+  [/([?&](?:key|code|token|client_secret|access_token)=)[^&\s"']+/gi, `$1${REDACTED}`],
+  [/\b(sk-[A-Za-z0-9_-]{8,}|sb_secret_[A-Za-z0-9_-]+|eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+)/g, REDACTED],
+  [/(postgres(?:ql)?:\/\/[^:/\s]+:)[^@\s]+@/gi, `$1${REDACTED}@`],
+];
+
+function getMinLevel(): number {
+  const level = (process.env.LOG_LEVEL || 'info').toLowerCase();
+  if (level === SILENT) return Infinity;
+  return LEVELS[level as LogLevel] ?? LEVELS.info;
+}
+
+function toSnakeCase(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/-/g, '_').toLowerCase();
+}
+
+function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_KEY_PATTERN.test(toSnakeCase(key));
+}
+
+function redactString(value: string): string {
+  return SENSITIVE_VALUE_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), value);
+}
+
+// Errors keep their name/message/stack. Axios errors are reduced to the request line and response
+// status, since their config carries auth headers and request bodies.
+function serializeError(error: Error): LogFields {
+  if (isAxiosError(error)) {
+    return {
+      name: error.name,
+      message: error.message,
+      code: error.code,
+      method: error.config?.method?.toUpperCase(),
+      url: error.config?.url,
+      status: error.response?.status,
+      response: error.response?.data?.error ?? error.response?.data,
+    };
+  }
+
+  const serialized: LogFields = { name: error.name, message: error.message, stack: error.stack };
+  for (const [key, value] of Object.entries(error)) {
+    serialized[key] = value;
+  }
+  return serialized;
+}
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'string') return redactString(value);
+  if (typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+
+  if (value instanceof Error) return redact(serializeError(value), depth + 1);
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  const result: LogFields = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = isSensitiveKey(key) && item !== null && typeof item !== 'object'
+      ? REDACTED
+      : redact(item, depth + 1);
+  }
+  return result;
+}
+
+function write(level: LogLevel, message: string, bindings: LogFields, fields?: LogFields) {
+  if (LEVELS[level] < getMinLevel()) return;
+
+  const entry = redact({
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...bindings,
+    ...fields,
+  });
+
+  const line = JSON.stringify(entry);
+  if (level === 'error' || level === 'warn') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export function createLogger(bindings: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write('debug', message, bindings, fields),
+    info: (message, fields) => write('info', message, bindings, fields),
+    warn: (message, fields) => write('warn', message, bindings, fields),
+    error: (message, fields) => write('error', message, bindings, fields),
+    child: (extra) => createLogger({ ...bindings, ...extra }),
+  };
+}
+
+export const logger = createLogger();
+
+// Logger bound to the request id assigned by the middleware
+export function getRequestLogger(request: Request): Logger {
+  const { pathname } = new URL(request.url);
+  return logger.child({
+    requestId: request.headers.get(REQUEST_ID_HEADER) || undefined,
+    method: request.method,
+    path: pathname,
+  });
+}
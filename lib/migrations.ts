@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Client } from 'pg';
+
+// supabase/schema.sql is the baseline (version 0000) and must not change any more;
+// later changes go in supabase/migrations/<NNNN>_<name>.sql and run in version order.
+const SUPABASE_DIR = path.join(process.cwd(), 'supabase');
+const BASELINE_FILE = path.join(SUPABASE_DIR, 'schema.sql');
+const MIGRATIONS_DIR = path.join(SUPABASE_DIR, 'migrations');
+const MIGRATION_FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+// Arbitrary key so two runners can't apply migrations at the same time
+const MIGRATION_LOCK_ID = 724_311_902;
+
+export interface Migration {
+  version: string;
+  name: string;
+  sql: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  changed: Migration[]; // Applied, but the file no longer matches the recorded checksum
+  unknown: AppliedMigration[]; // Recorded in the database but missing on disk
+  upToDate: boolean;
+}
+
+const checksum = (sql: string) => crypto.createHash('sha256').update(sql).digest('hex');
+
+export function loadMigrations(): Migration[] {
+  const baselineSql = fs.readFileSync(BASELINE_FILE, 'utf8');
+  const migrations: Migration[] = [
+    { version: '0000', name: 'baseline', sql: baselineSql, checksum: checksum(baselineSql) },
+  ];
+
+  const files = fs.existsSync(MIGRATIONS_DIR) ? fs.readdirSync(MIGRATIONS_DIR).sort() : [];
+  for (const file of files) {
+    const match = file.match(MIGRATION_FILE_PATTERN);
+    if (!match) {
+      throw new Error(`Unexpected file in supabase/migrations: ${file} (expected NNNN_name.sql)`);
+    }
+
+    const [, version, name] = match;
+    if (migrations.some(migration => migration.version === version)) {
+      throw new Error(`Duplicate migration version ${version}`);
+    }
+
+    const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+    migrations.push({ version, name, sql, checksum: checksum(sql) });
+  }
+
+  return migrations;
+}
+
+// Migrations need a direct Postgres connection; Supabase exposes one as its connection string
+export function getMigrationDatabaseUrl(): string | null {
+  return process.env.DATABASE_URL || null;
+}
+
+// The in-memory adapter has no schema, and without DATABASE_URL there is nothing to connect to
+export function isMigrationCheckEnabled(): boolean {
+  return process.env.STORAGE_ADAPTER !== 'memory' && getMigrationDatabaseUrl() !== null;
+}
+
+async function withClient<T>(fn: (client: Client) => Promise<T>): Promise<T> {
+  const connectionString = getMigrationDatabaseUrl();
+  if (!connectionString) {
+    throw new Error('DATABASE_URL must be set to run or check migrations');
+  }
+
+  const client = new Client({ connectionString, connectionTimeoutMillis: 10000 });
+  await client.connect();
+  try {
+    return await fn(client);
+  } finally {
+    await client.end().catch(() => undefined);
+  }
+}
+
+async function ensureMigrationsTable(client: Client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+}
+
+async function readStatus(client: Client): Promise<MigrationStatus> {
+  await ensureMigrationsTable(client);
+  const { rows } = await client.query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+  const applied: AppliedMigration[] = rows.map(row => ({
+    ...row,
+    applied_at: row.applied_at instanceof Date ? row.applied_at.toISOString() : row.applied_at,
+  }));
+
+  const migrations = loadMigrations();
+  const appliedByVersion = new Map(applied.map(row => [row.version, row]));
+
+  const pending = migrations.filter(migration => !appliedByVersion.has(migration.version));
+  const changed = migrations.filter(migration => {
+    const row = appliedByVersion.get(migration.version);
+    return row && row.checksum !== migration.checksum;
+  });
+  const unknown = applied.filter(row => !migrations.some(migration => migration.version === row.version));
+
+  return {
+    applied,
+    pending,
+    changed,
+    unknown,
+    upToDate: pending.length === 0 && changed.length === 0,
+  };
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  return withClient(readStatus);
+}
+
+// Apply every pending migration, each in its own transaction. Refuses to run when an
+// applied migration was edited, since the database no longer matches the files.
+export async function applyMigrations(
+  onApplied: (migration: Migration) => void = () => undefined
+): Promise<Migration[]> {
+  return withClient(async client => {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    try {
+      const status = await readStatus(client);
+      if (status.changed.length > 0) {
+        const versions = status.changed.map(migration => `${migration.version}_${migration.name}`).join(', ');
+        throw new Error(`Applied migrations were modified: ${versions}. Add a new migration instead of editing old ones.`);
+      }
+
+      for (const migration of status.pending) {
+        await client.query('BEGIN');
+        try {
+          await client.query(migration.sql);
+          await client.query(
+            'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+            [migration.version, migration.name, migration.checksum]
+          );
+          await client.query('COMMIT');
+        } catch (error) {
+          await client.query('ROLLBACK');
+          throw new Error(
+            `Migration ${migration.version}_${migration.name} failed: ${error instanceof Error ? error.message : error}`
+          );
+        }
+        onApplied(migration);
+      }
+
+      return status.pending;
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+    }
+  });
+}
+
+// Called on server start: refuse to serve requests against an out-of-date schema
+export async function assertMigrationsApplied(): Promise<void> {
+  const status = await getMigrationStatus();
+  if (!status.upToDate) {
+    const names = [...status.changed, ...status.pending].map(migration => `${migration.version}_${migration.name}`);
+    throw new Error(`Database migrations are not up to date (${names.join(', ')}). Run "npm run migrate".`);
+  }
+}
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { signPayload, verifyPayload } from './session';
+
+export const OAUTH_STATE_COOKIE = 'vis_oauth_state';
+const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+interface OAuthState {
+  nonce: string;
+  exp: number; // Unix seconds
+  returnTo?: string; // Page to go back to after signing in again
+}
+
+export type OAuthStateCheck =
+  | { ok: true; returnTo?: string }
+  | { ok: false; reason: 'missing' | 'not_found' | 'mismatch' | 'expired' };
+
+// Generate a nonce for the state parameter, plus the signed cookie value that binds it to this browser
+export function createOAuthState(returnTo?: string): { nonce: string; cookie: string } {
+  const nonce = crypto.randomBytes(32).toString('base64url');
+  const state: OAuthState = {
+    nonce,
+    exp: Math.floor(Date.now() / 1000) + OAUTH_STATE_TTL_SECONDS,
+    ...(returnTo && { returnTo }),
+  };
+
+  return { nonce, cookie: signPayload(state) };
+}
+
+// Redirect to the Vercel install page with a fresh state. For an existing configuration Vercel
+// sends the user straight back with a new code, which is how an expired session is renewed.
+export function redirectToVercelInstall(returnTo?: string): NextResponse {
+  const slug = process.env.VERCEL_INTEGRATION_SLUG || 'vezlo-assistant-server';
+  const { nonce, cookie } = createOAuthState(returnTo);
+
+  const installUrl = new URL(`https://vercel.com/integrations/${slug}/new`);
+  installUrl.searchParams.set('state', nonce);
+
+  const response = NextResponse.redirect(installUrl);
+  setOAuthStateCookie(response, cookie);
+  return response;
+}
+
+// Only paths on this app are accepted as a return target, never another origin ("//host" included)
+export function toReturnPath(value: string | null): string | undefined {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) return undefined;
+  return value;
+}
+
+export function setOAuthStateCookie(response: NextResponse, cookie: string): void {
+  response.cookies.set(OAUTH_STATE_COOKIE, cookie, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax', // Must survive the top-level redirect back from Vercel
+    path: '/api/oauth',
+    maxAge: OAUTH_STATE_TTL_SECONDS,
+  });
+}
+
+export function checkOAuthState(request: NextRequest, state: string | null): OAuthStateCheck {
+  if (!state) return { ok: false, reason: 'missing' };
+
+  const cookie = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+  const stored = cookie ? verifyPayload<OAuthState>(cookie) : null;
+  if (!stored) return { ok: false, reason: 'not_found' };
+
+  if (stored.exp * 1000 <= Date.now()) return { ok: false, reason: 'expired' };
+
+  const expected = Buffer.from(stored.nonce);
+  const actual = Buffer.from(state);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: 'mismatch' };
+  }
+
+  return { ok: true, returnTo: stored.returnTo };
+}
+
+// State is single use
+export function clearOAuthState(response: NextResponse): void {
+  response.cookies.set(OAUTH_STATE_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/oauth',
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,175 @@
+import axios from 'axios';
+import { Client, DatabaseError } from 'pg';
+import { DeploymentConfig, PreflightFieldResult, PreflightResult } from '@/types';
+
+const CHECK_TIMEOUT_MS = 8000;
+const DEFAULT_POSTGRES_PORT = 5432;
+
+type FieldResults = Record<string, PreflightFieldResult>;
+
+const pass = (): PreflightFieldResult => ({ ok: true });
+const fail = (message: string): PreflightFieldResult => ({ ok: false, message });
+
+// Run every credential check before anything is deployed
+export async function runPreflightChecks(config: DeploymentConfig): Promise<PreflightResult> {
+  const results = await Promise.all([
+    checkSupabase(config.supabase.url, config.supabase.serviceRoleKey),
+    checkDatabase(config.database),
+    checkOpenAI(config.openai.apiKey),
+  ]);
+
+  const fields: FieldResults = Object.assign({}, ...results);
+  return {
+    valid: Object.values(fields).every(field => field.ok),
+    fields,
+  };
+}
+
+function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    return JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// Hosted projects live at https://<ref>.supabase.co
+function getSupabaseProjectRef(url: string): string | null {
+  const { hostname } = new URL(url);
+  return hostname.endsWith('.supabase.co') ? hostname.split('.')[0] : null;
+}
+
+export async function checkSupabase(url: string, serviceRoleKey: string): Promise<FieldResults> {
+  // Legacy keys are JWTs carrying the role and project ref; newer sb_secret_ keys are opaque
+  if (!serviceRoleKey.startsWith('sb_secret_')) {
+    const payload = decodeJwtPayload(serviceRoleKey);
+    if (!payload) {
+      return {
+        'supabase.url': pass(),
+        'supabase.serviceRoleKey': fail('Key is not a valid Supabase JWT'),
+      };
+    }
+
+    if (payload.role !== 'service_role') {
+      return {
+        'supabase.url': pass(),
+        'supabase.serviceRoleKey': fail(`Expected a service_role key but got role "${payload.role}"`),
+      };
+    }
+
+    const urlRef = getSupabaseProjectRef(url);
+    if (urlRef && payload.ref && payload.ref !== urlRef) {
+      return {
+        'supabase.url': fail(`URL points to project "${urlRef}"`),
+        'supabase.serviceRoleKey': fail(`Key belongs to project "${payload.ref}"`),
+      };
+    }
+  }
+
+  try {
+    await axios.get(`${url.replace(/\/$/, '')}/rest/v1/`, {
+      headers: {
+        apikey: serviceRoleKey,
+        Authorization: `Bearer ${serviceRoleKey}`,
+      },
+      timeout: CHECK_TIMEOUT_MS,
+    });
+    return { 'supabase.url': pass(), 'supabase.serviceRoleKey': pass() };
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    if (status === 401 || status === 403) {
+      return {
+        'supabase.url': pass(),
+        'supabase.serviceRoleKey': fail('Supabase rejected the service role key'),
+      };
+    }
+    return {
+      'supabase.url': fail(status ? `Supabase responded with HTTP ${status}` : 'Could not reach the Supabase URL'),
+      'supabase.serviceRoleKey': fail('Not checked because the URL is unreachable'),
+    };
+  }
+}
+
+// "host", "host:port", "[ipv6]" or "[ipv6]:port"; an unbracketed IPv6 literal has no port
+function parseDatabaseHost(value: string): { host: string; port: number } {
+  const bracketed = value.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (bracketed) {
+    return { host: bracketed[1], port: bracketed[2] ? Number(bracketed[2]) : DEFAULT_POSTGRES_PORT };
+  }
+
+  const hostWithPort = value.match(/^([^:]+):(\d+)$/);
+  if (hostWithPort) {
+    return { host: hostWithPort[1], port: Number(hostWithPort[2]) };
+  }
+
+  return { host: value, port: DEFAULT_POSTGRES_PORT };
+}
+
+export async function checkDatabase(database: DeploymentConfig['database']): Promise<FieldResults> {
+  const { host, port } = parseDatabaseHost(database.host);
+  const client = new Client({
+    host,
+    port,
+    database: database.name,
+    user: database.user,
+    password: database.password,
+    ssl: { rejectUnauthorized: false },
+    connectionTimeoutMillis: CHECK_TIMEOUT_MS,
+  });
+
+  const results: FieldResults = {
+    'database.host': pass(),
+    'database.name': pass(),
+    'database.user': pass(),
+    'database.password': pass(),
+  };
+
+  try {
+    await client.connect();
+    await client.query('SELECT 1');
+    return results;
+  } catch (error) {
+    const code = error instanceof DatabaseError ? error.code : undefined;
+    const message = error instanceof Error ? error.message : 'Connection failed';
+
+    switch (code) {
+      case '28P01': // invalid_password
+        results['database.user'] = fail('Authentication failed for this user');
+        results['database.password'] = fail('Password was rejected');
+        break;
+      case '28000': // invalid_authorization_specification
+        results['database.user'] = fail(message);
+        break;
+      case '3D000': // invalid_catalog_name
+        results['database.name'] = fail('Database does not exist');
+        break;
+      default:
+        results['database.host'] = fail(`Could not connect: ${message}`);
+    }
+    return results;
+  } finally {
+    await client.end().catch(() => undefined);
+  }
+}
+
+export async function checkOpenAI(apiKey: string): Promise<FieldResults> {
+  try {
+    await axios.get('https://api.openai.com/v1/models', {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      timeout: CHECK_TIMEOUT_MS,
+    });
+    return { 'openai.apiKey': pass() };
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    if (status === 401 || status === 403) {
+      return { 'openai.apiKey': fail('OpenAI rejected the API key') };
+    }
+    if (status === 429) {
+      return { 'openai.apiKey': fail('OpenAI key is rate limited or out of quota') };
+    }
+    return { 'openai.apiKey': fail(status ? `OpenAI responded with HTTP ${status}` : 'Could not reach OpenAI') };
+  }
+}
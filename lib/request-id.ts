@@ -0,0 +1,2 @@
+// Header carrying the request id. Kept free of imports: middleware.ts runs on the edge runtime.
+export const REQUEST_ID_HEADER = 'x-request-id';
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { ASSISTANT_LIMITS, ASSISTANT_MODELS, GENERATED_SECRETS } from './assistant-env';
+
+// Credentials collected on the configure page
+export const DeploymentConfigSchema = z.object({
+  supabase: z.object({
+    url: z.string().url(),
+    serviceRoleKey: z.string().min(1),
+  }),
+  database: z.object({
+    host: z.string().min(1),
+    name: z.string().min(1),
+    user: z.string().min(1),
+    password: z.string().min(1),
+  }),
+  openai: z.object({
+    apiKey: z.string().min(1),
+  }),
+  admin: z.object({
+    email: z.string().email(),
+  }),
+  // Optional; anything left out uses the defaults from assistant-env
+  assistant: z.object({
+    model: z.enum(ASSISTANT_MODELS).optional(),
+    temperature: z.number()
+      .min(ASSISTANT_LIMITS.temperature.min)
+      .max(ASSISTANT_LIMITS.temperature.max)
+      .optional(),
+    maxTokens: z.number().int()
+      .min(ASSISTANT_LIMITS.maxTokens.min)
+      .max(ASSISTANT_LIMITS.maxTokens.max)
+      .optional(),
+    organizationName: z.string().trim().min(1).max(ASSISTANT_LIMITS.nameLength).optional(),
+    assistantName: z.string().trim().min(1).max(ASSISTANT_LIMITS.nameLength).optional(),
+  }).optional(),
+});
+
+export const DeploymentSchema = z.object({
+  configurationId: z.string(), // Only use Vercel's configuration ID
+  config: DeploymentConfigSchema,
+  projectId: z.string().min(1).optional(), // Existing project from the integration configuration
+  createProject: z.boolean().optional(), // Create a new project instead
+  projectName: z.string().optional(),
+}).refine(data => Boolean(data.projectId) !== Boolean(data.createProject), {
+  message: 'Provide either projectId or createProject',
+  path: ['projectId'],
+});
+
+export const ValidationSchema = z.object({
+  config: DeploymentConfigSchema,
+});
+
+// Every config field is optional; only the provided ones are changed
+export const RedeploySchema = z.object({
+  config: DeploymentConfigSchema.deepPartial().optional(),
+  branch: z.string().min(1).optional(),
+});
+
+// Generated secrets get a fresh value; `values` replaces a secret with the given one
+export const RotateSecretsSchema = z.object({
+  generate: z.array(z.enum(GENERATED_SECRETS)).optional(),
+  values: z.object({
+    JWT_SECRET: z.string().min(1).optional(),
+    MIGRATION_SECRET_KEY: z.string().min(1).optional(),
+    OPENAI_API_KEY: z.string().min(1).optional(),
+    SUPABASE_SERVICE_KEY: z.string().min(1).optional(),
+  }).strict().optional(),
+  branch: z.string().min(1).optional(),
+}).refine(data => (data.generate?.length || 0) + Object.keys(data.values || {}).length > 0, {
+  message: 'Provide at least one secret to generate or replace',
+  path: ['generate'],
+}).refine(data => !data.generate?.some(key => data.values?.[key] !== undefined), {
+  message: 'A secret cannot be both generated and replaced',
+  path: ['values'],
+});
+
+// Envelope of a Vercel webhook; the payload fields depend on the event type and stay optional
+export const WebhookEventSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  createdAt: z.number(),
+  payload: z.object({
+    configuration: z.object({ id: z.string() }).passthrough().optional(),
+    project: z.object({ id: z.string() }).passthrough().optional(),
+    deployment: z.object({ id: z.string(), url: z.string().optional() }).passthrough().optional(),
+  }).passthrough(),
+}).passthrough();
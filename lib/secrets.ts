@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+
+const LOWERCASE = 'abcdefghijkmnopqrstuvwxyz';
+const UPPERCASE = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const DIGITS = '23456789';
+const SYMBOLS = '!@#$%^&*-_=+';
+
+const randomChar = (charset: string) => charset[crypto.randomInt(charset.length)];
+
+// Strong random password with at least one character from every class.
+// Look-alike characters (l/1, O/0, I) are left out since users copy it by hand.
+export function generateAdminPassword(length: number = 24): string {
+  const classes = [LOWERCASE, UPPERCASE, DIGITS, SYMBOLS];
+  const all = classes.join('');
+
+  const chars = classes.map(randomChar);
+  while (chars.length < length) {
+    chars.push(randomChar(all));
+  }
+
+  // Fisher-Yates shuffle so the guaranteed characters aren't always first
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+
+  return chars.join('');
+}
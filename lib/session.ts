@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getAccountById } from './storage';
+import { Installation, Session } from '@/types';
+
+export const SESSION_COOKIE = 'vis_session';
+const SESSION_TTL_SECONDS = 60 * 60;
+const MIN_SECRET_LENGTH = 32;
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(`SESSION_SECRET must be set to at least ${MIN_SECRET_LENGTH} characters`);
+  }
+  return secret;
+}
+
+// Called on server start alongside the encryption check
+export function assertSessionConfigured(): void {
+  getSessionSecret();
+}
+
+// <base64url JSON>.<base64url HMAC-SHA256>
+export function signPayload(payload: object): string {
+  const body = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  const signature = crypto.createHmac('sha256', getSessionSecret()).update(body).digest('base64url');
+  return `${body}.${signature}`;
+}
+
+export function verifyPayload<T>(token: string): T | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = crypto.createHmac('sha256', getSessionSecret()).update(body).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export function setSessionCookie(
+  response: NextResponse,
+  data: Omit<Session, 'exp'>
+): void {
+  const session: Session = {
+    ...data,
+    exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+  };
+
+  response.cookies.set(SESSION_COOKIE, signPayload(session), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax', // Sent on the top-level redirect back from Vercel
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
+
+// Valid, unexpired session from the request cookie
+export function getSession(request: NextRequest): Session | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const session = verifyPayload<Session>(token);
+  if (!session || typeof session.exp !== 'number' || session.exp * 1000 <= Date.now()) {
+    return null;
+  }
+  return session;
+}
+
+// Sessions grant access to every installation of the user they were issued for, in the personal
+// scope and in each team the user installed into (accounts are per scope)
+export async function canAccessInstallation(session: Session, installation: Installation): Promise<boolean> {
+  if (session.installationUuid === installation.uuid) return true;
+
+  const account = await getAccountById(installation.account_id);
+  return Boolean(account && (account.uuid === session.accountUuid || account.vercel_user_id === session.userId));
+}
+
+export const unauthorizedResponse = () =>
+  NextResponse.json({ error: 'Unauthorized', message: 'Session missing or expired' }, { status: 401 });
+
+export const forbiddenResponse = () =>
+  NextResponse.json({ error: 'Forbidden', message: 'Session does not grant access to this installation' }, { status: 403 });
@@ -1,134 +1,114 @@
-import { getSupabaseClient } from './supabase';
-import { Account, Installation, VercelOAuthToken } from '@/types';
+import { getStorageAdapter } from './adapters';
+import { InstallationUpdate, DeploymentUpdate, NewDeployment } from './adapters/types';
+import { Account, Deployment, Installation, VercelOAuthToken } from '@/types';
 import { encrypt, decrypt } from './encryption';
 
 // Account Storage
+// One account per scope: the user's personal scope, or each team they installed into
 export async function createAccount(tokenData: VercelOAuthToken): Promise<Account> {
-  const encryptedToken = encrypt(tokenData.access_token);
-  
-  const { data, error } = await getSupabaseClient()
-    .from('accounts')
-    .upsert({
-      vercel_user_id: tokenData.user_id,
-      vercel_team_id: tokenData.team_id || null,
-      access_token: encryptedToken,
-      updated_at: new Date().toISOString(),
-    }, {
-      onConflict: 'vercel_user_id'
-    })
-    .select()
-    .single();
-  
-  if (error) throw error;
-  return data;
-}
-
-export async function getAccountByVercelUserId(vercelUserId: string): Promise<Account | null> {
-  const { data, error } = await getSupabaseClient()
-    .from('accounts')
-    .select('*')
-    .eq('vercel_user_id', vercelUserId)
-    .single();
-  
-  if (error || !data) return null;
-  return data;
+  return getStorageAdapter().upsertAccount({
+    vercel_user_id: tokenData.user_id,
+    vercel_team_id: tokenData.team_id || null,
+    access_token: encrypt(tokenData.access_token),
+  });
+}
+
+export async function getAccountByScope(vercelUserId: string, vercelTeamId: string | null = null): Promise<Account | null> {
+  return getStorageAdapter().findAccountByScope(vercelUserId, vercelTeamId);
 }
 
 export async function getAccountByUuid(uuid: string): Promise<Account | null> {
-  const { data, error } = await getSupabaseClient()
-    .from('accounts')
-    .select('*')
-    .eq('uuid', uuid)
-    .single();
-  
-  if (error || !data) return null;
-  return data;
+  return getStorageAdapter().findAccount('uuid', uuid);
 }
 
 export async function getAccountById(id: number): Promise<Account | null> {
-  const { data, error } = await getSupabaseClient()
-    .from('accounts')
-    .select('*')
-    .eq('id', id)
-    .single();
-  
-  if (error || !data) return null;
-  return data;
+  return getStorageAdapter().findAccount('id', id);
 }
 
 export async function getDecryptedToken(accountId: number): Promise<string | null> {
-  const { data, error } = await getSupabaseClient()
-    .from('accounts')
-    .select('access_token')
-    .eq('id', accountId)
-    .single();
-  
-  if (error || !data) return null;
-  
+  const account = await getAccountById(accountId);
+  if (!account || !account.access_token) return null;
+
   try {
-    return decrypt(data.access_token);
+    return decrypt(account.access_token);
   } catch {
     return null;
   }
 }
 
+export async function listAccounts(): Promise<Account[]> {
+  return getStorageAdapter().listAccounts();
+}
+
+// The user's personal account and one per team they installed into
+export async function getAccountsByVercelUserId(vercelUserId: string): Promise<Account[]> {
+  return getStorageAdapter().listAccounts({ vercel_user_id: vercelUserId });
+}
+
+export async function updateAccountToken(accountId: number, encryptedToken: string): Promise<void> {
+  await getStorageAdapter().updateAccount(accountId, { access_token: encryptedToken });
+}
+
+export async function revokeAccountToken(accountId: number): Promise<void> {
+  await getStorageAdapter().updateAccount(accountId, { access_token: null });
+}
+
 // Installation Storage
 export async function createInstallation(
   installationId: string,
   accountId: number,
   appName: string = 'assistant-server'
 ): Promise<Installation> {
-  const { data, error } = await getSupabaseClient()
-    .from('installations')
-    .insert({
-      installation_id: installationId,
-      account_id: accountId,
-      app_name: appName,
-      status: 'pending',
-    })
-    .select()
-    .single();
-  
-  if (error) throw error;
-  return data;
+  return getStorageAdapter().insertInstallation({
+    installation_id: installationId,
+    account_id: accountId,
+    app_name: appName,
+    status: 'pending',
+  });
+}
+
+export async function listInstallations(): Promise<Installation[]> {
+  return getStorageAdapter().listInstallations();
 }
 
 export async function getInstallationByUuid(uuid: string): Promise<Installation | null> {
-  const { data, error } = await getSupabaseClient()
-    .from('installations')
-    .select('*')
-    .eq('uuid', uuid)
-    .single();
-  
-  if (error || !data) return null;
-  return data;
+  return getStorageAdapter().findInstallation('uuid', uuid);
 }
 
 export async function getInstallationById(installationId: string): Promise<Installation | null> {
-  const { data, error } = await getSupabaseClient()
-    .from('installations')
-    .select('*')
-    .eq('installation_id', installationId)
-    .single();
-  
-  if (error || !data) return null;
-  return data;
+  return getStorageAdapter().findInstallation('installation_id', installationId);
 }
 
 export async function updateInstallation(
   uuid: string,
-  updates: Partial<Installation>
+  updates: InstallationUpdate
 ): Promise<Installation | null> {
-  const { data, error } = await getSupabaseClient()
-    .from('installations')
-    .update({
-      ...updates,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('uuid', uuid)
-    .select()
-    .single();
-  
-  if (error || !data) return null;
-  return data;
+  return getStorageAdapter().updateInstallation(uuid, updates);
+}
+
+export async function getInstallationsByProjectId(projectId: string): Promise<Installation[]> {
+  return getStorageAdapter().listInstallations({ vercel_project_id: projectId });
+}
+
+export async function getInstallationsByAccountId(accountId: number): Promise<Installation[]> {
+  return getStorageAdapter().listInstallations({ account_id: accountId });
+}
+
+// Deployment Storage
+export async function createDeployment(deployment: NewDeployment): Promise<Deployment> {
+  return getStorageAdapter().insertDeployment(deployment);
+}
+
+export async function updateDeploymentByVercelId(
+  vercelDeploymentId: string,
+  updates: DeploymentUpdate
+): Promise<Deployment | null> {
+  return getStorageAdapter().updateDeploymentByVercelId(vercelDeploymentId, updates);
+}
+
+export async function listDeployments(
+  installationId: number,
+  options: { limit: number; offset: number }
+): Promise<{ deployments: Deployment[]; total: number }> {
+  return getStorageAdapter().listDeployments(installationId, options);
 }
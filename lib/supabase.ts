@@ -1,8 +1,9 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { logger } from './logger';
 
-let supabaseClient: any = null;
+let supabaseClient: SupabaseClient | null = null;
 
-export function getSupabaseClient() {
+export function getSupabaseClient(): SupabaseClient {
   if (supabaseClient) {
     return supabaseClient;
   }
@@ -11,9 +12,10 @@ export function getSupabaseClient() {
   const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
   if (!supabaseUrl || !supabaseKey) {
-    console.error('❌ Supabase credentials missing!');
-    console.error('SUPABASE_URL:', supabaseUrl ? 'SET' : 'MISSING');
-    console.error('SUPABASE_SERVICE_ROLE_KEY:', supabaseKey ? 'SET' : 'MISSING');
+    logger.error('Supabase credentials missing', {
+      supabaseUrlSet: Boolean(supabaseUrl),
+      serviceRoleKeySet: Boolean(supabaseKey),
+    });
     throw new Error('Supabase credentials not configured. Check environment variables.');
   }
 
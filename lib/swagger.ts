@@ -1,4 +1,6 @@
 import { createSwaggerSpec } from 'next-swagger-doc';
+import { ERROR_CODES } from './errors';
+import { GENERATED_SECRETS, ROTATABLE_SECRETS } from './assistant-env';
 
 export const getApiDocs = () => {
   const spec = createSwaggerSpec({
@@ -17,6 +19,14 @@ export const getApiDocs = () => {
         },
       ],
       components: {
+        securitySchemes: {
+          sessionCookie: {
+            type: 'apiKey',
+            in: 'cookie',
+            name: 'vis_session',
+            description: 'Signed, short-lived session issued by the OAuth callback',
+          },
+        },
         schemas: {
           Error: {
             type: 'object',
@@ -24,9 +34,17 @@ export const getApiDocs = () => {
               error: {
                 type: 'string',
               },
+              code: {
+                type: 'string',
+                enum: Object.keys(ERROR_CODES),
+                description: 'Stable error code (deploy and redeploy endpoints); see the README for remediation',
+              },
               message: {
                 type: 'string',
               },
+              details: {
+                description: 'Validation issues for VALIDATION_FAILED',
+              },
             },
           },
           DeploymentRequest: {
@@ -77,11 +95,76 @@ export const getApiDocs = () => {
                       },
                     },
                   },
+                  admin: {
+                    type: 'object',
+                    required: ['email'],
+                    properties: {
+                      email: {
+                        type: 'string',
+                        format: 'email',
+                        description: 'Email of the default admin user; the password is generated by the server',
+                      },
+                    },
+                  },
+                  assistant: {
+                    type: 'object',
+                    description: 'Optional assistant settings; omitted values use the defaults',
+                    properties: {
+                      model: {
+                        type: 'string',
+                        enum: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1', 'gpt-4-turbo', 'gpt-3.5-turbo'],
+                        default: 'gpt-4o-mini',
+                      },
+                      temperature: {
+                        type: 'number',
+                        minimum: 0,
+                        maximum: 2,
+                        default: 0.7,
+                      },
+                      maxTokens: {
+                        type: 'integer',
+                        minimum: 1,
+                        maximum: 16384,
+                        default: 1000,
+                      },
+                      organizationName: {
+                        type: 'string',
+                        maxLength: 100,
+                        default: 'Vezlo',
+                      },
+                      assistantName: {
+                        type: 'string',
+                        maxLength: 100,
+                        default: 'Vezlo Assistant',
+                      },
+                    },
+                  },
                 },
               },
+              projectId: {
+                type: 'string',
+                description: 'Existing project to deploy to; must be part of the integration configuration',
+              },
+              createProject: {
+                type: 'boolean',
+                description: 'Create a new project instead of using projectId',
+              },
               projectName: {
                 type: 'string',
-                description: 'Optional project name',
+                description: 'Name for the new project when createProject is true',
+              },
+            },
+          },
+          RedeployRequest: {
+            type: 'object',
+            properties: {
+              config: {
+                type: 'object',
+                description: 'Partial config; only the provided fields are updated. Same shape as DeploymentRequest.config.',
+              },
+              branch: {
+                type: 'string',
+                description: 'Assistant server branch to deploy (default: main)',
               },
             },
           },
@@ -104,10 +187,500 @@ export const getApiDocs = () => {
                   projectName: {
                     type: 'string',
                   },
-                  migrationSecretKey: {
+                  envVariables: {
+                    $ref: '#/components/schemas/EnvUpsertResult',
+                  },
+                  adminEmail: {
+                    type: 'string',
+                    format: 'email',
+                  },
+                  adminPassword: {
+                    type: 'string',
+                    description: 'Generated admin password. Only returned by /api/deploy, once; it is not stored.',
+                  },
+                },
+              },
+            },
+          },
+          RotateSecretsRequest: {
+            type: 'object',
+            description: 'At least one secret must be generated or replaced, and none both',
+            properties: {
+              generate: {
+                type: 'array',
+                description: 'Secrets to regenerate',
+                items: {
+                  type: 'string',
+                  enum: [...GENERATED_SECRETS],
+                },
+              },
+              values: {
+                type: 'object',
+                description: 'Replacement values, keyed by env var name',
+                properties: Object.fromEntries(ROTATABLE_SECRETS.map(key => [key, { type: 'string' }])),
+                additionalProperties: false,
+              },
+              branch: {
+                type: 'string',
+                description: 'Assistant server branch to deploy (default: main)',
+              },
+            },
+          },
+          RotateSecretsResponse: {
+            type: 'object',
+            properties: {
+              success: {
+                type: 'boolean',
+              },
+              data: {
+                type: 'object',
+                properties: {
+                  rotated: {
+                    type: 'array',
+                    items: {
+                      type: 'string',
+                      enum: [...ROTATABLE_SECRETS],
+                    },
+                  },
+                  rotatedAt: {
+                    type: 'string',
+                    format: 'date-time',
+                  },
+                  deploymentId: {
+                    type: 'string',
+                  },
+                  deploymentUrl: {
+                    type: 'string',
+                  },
+                  projectName: {
+                    type: 'string',
+                  },
+                  envVariables: {
+                    $ref: '#/components/schemas/EnvUpsertResult',
+                  },
+                },
+              },
+            },
+          },
+          EnvUpsertResult: {
+            type: 'object',
+            description: 'Environment variable keys grouped by what the upsert did with them',
+            properties: {
+              added: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                },
+              },
+              changed: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                },
+              },
+              unchanged: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                },
+              },
+              removed: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                },
+              },
+            },
+          },
+          DeploymentStatusResponse: {
+            type: 'object',
+            properties: {
+              success: {
+                type: 'boolean',
+              },
+              data: {
+                type: 'object',
+                properties: {
+                  id: {
+                    type: 'string',
+                  },
+                  state: {
+                    type: 'string',
+                    enum: ['QUEUED', 'INITIALIZING', 'BUILDING', 'READY', 'ERROR', 'CANCELED'],
+                  },
+                  url: {
+                    type: 'string',
+                  },
+                  createdAt: {
+                    type: 'number',
+                  },
+                  buildingAt: {
+                    type: 'number',
+                  },
+                  readyAt: {
+                    type: 'number',
+                  },
+                  buildDurationMs: {
+                    type: 'number',
+                  },
+                  errorCode: {
+                    type: 'string',
+                  },
+                  errorMessage: {
+                    type: 'string',
+                  },
+                },
+              },
+            },
+          },
+          BootstrapResponse: {
+            type: 'object',
+            properties: {
+              success: {
+                type: 'boolean',
+              },
+              data: {
+                type: 'object',
+                properties: {
+                  steps: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        step: {
+                          type: 'string',
+                          enum: ['migrate', 'seed-default', 'generate-key'],
+                        },
+                        label: {
+                          type: 'string',
+                        },
+                        description: {
+                          type: 'string',
+                        },
+                        status: {
+                          type: 'string',
+                          enum: ['pending', 'running', 'succeeded', 'failed'],
+                        },
+                        attempts: {
+                          type: 'number',
+                        },
+                        error: {
+                          type: 'string',
+                        },
+                        output: {
+                          type: 'object',
+                        },
+                        completedAt: {
+                          type: 'string',
+                          format: 'date-time',
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          InstallationSummary: {
+            type: 'object',
+            properties: {
+              uuid: {
+                type: 'string',
+                format: 'uuid',
+              },
+              installation_id: {
+                type: 'string',
+                description: 'Vercel integration configuration ID',
+              },
+              app_name: {
+                type: 'string',
+              },
+              vercel_project_id: {
+                type: 'string',
+              },
+              vercel_project_name: {
+                type: 'string',
+              },
+              deployment_url: {
+                type: 'string',
+              },
+              deployment_id: {
+                type: 'string',
+              },
+              status: {
+                type: 'string',
+                enum: ['pending', 'installed', 'failed', 'uninstalled'],
+              },
+              secrets_rotated_at: {
+                type: 'object',
+                description: 'When each rotatable secret last changed, keyed by env var name',
+                properties: Object.fromEntries(ROTATABLE_SECRETS.map(key => [key, { type: 'string', format: 'date-time' }])),
+              },
+              bootstrap: {
+                type: 'array',
+                description: 'Post-deploy setup steps with the assistant server endpoint each one calls',
+                items: {
+                  type: 'object',
+                  properties: {
+                    step: {
+                      type: 'string',
+                      enum: ['migrate', 'seed-default', 'generate-key'],
+                    },
+                    label: {
+                      type: 'string',
+                    },
+                    description: {
+                      type: 'string',
+                    },
+                    status: {
+                      type: 'string',
+                      enum: ['pending', 'running', 'succeeded', 'failed'],
+                    },
+                    attempts: {
+                      type: 'number',
+                    },
+                    error: {
+                      type: 'string',
+                    },
+                    completedAt: {
+                      type: 'string',
+                      format: 'date-time',
+                    },
+                    endpoint: {
+                      type: 'string',
+                      nullable: true,
+                      example: 'https://assistant-server.vercel.app/api/migrate',
+                    },
+                  },
+                },
+              },
+              latest_deployment: {
+                type: 'object',
+                nullable: true,
+                properties: {
+                  uuid: {
                     type: 'string',
                     format: 'uuid',
                   },
+                  vercel_deployment_id: {
+                    type: 'string',
+                  },
+                  state: {
+                    type: 'string',
+                    enum: ['QUEUED', 'INITIALIZING', 'BUILDING', 'READY', 'ERROR', 'CANCELED'],
+                  },
+                  error_message: {
+                    type: 'string',
+                  },
+                  ready_at: {
+                    type: 'string',
+                    format: 'date-time',
+                  },
+                  created_at: {
+                    type: 'string',
+                    format: 'date-time',
+                  },
+                },
+              },
+              created_at: {
+                type: 'string',
+                format: 'date-time',
+              },
+              updated_at: {
+                type: 'string',
+                format: 'date-time',
+              },
+            },
+          },
+          InstallationResponse: {
+            type: 'object',
+            properties: {
+              success: {
+                type: 'boolean',
+              },
+              data: {
+                $ref: '#/components/schemas/InstallationSummary',
+              },
+            },
+          },
+          InstallationListResponse: {
+            type: 'object',
+            properties: {
+              success: {
+                type: 'boolean',
+              },
+              data: {
+                type: 'object',
+                properties: {
+                  installations: {
+                    type: 'array',
+                    items: {
+                      $ref: '#/components/schemas/InstallationSummary',
+                    },
+                  },
+                },
+              },
+            },
+          },
+          UninstallResponse: {
+            type: 'object',
+            properties: {
+              success: {
+                type: 'boolean',
+              },
+              data: {
+                type: 'object',
+                properties: {
+                  alreadyUninstalled: {
+                    type: 'boolean',
+                  },
+                  envVarsRemoved: {
+                    type: 'array',
+                    items: {
+                      type: 'string',
+                    },
+                  },
+                  tokenRevoked: {
+                    type: 'boolean',
+                  },
+                },
+              },
+            },
+          },
+          ProjectsResponse: {
+            type: 'object',
+            properties: {
+              success: {
+                type: 'boolean',
+              },
+              data: {
+                type: 'object',
+                properties: {
+                  projects: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: {
+                          type: 'string',
+                        },
+                        name: {
+                          type: 'string',
+                        },
+                        framework: {
+                          type: 'string',
+                          nullable: true,
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          ValidationResponse: {
+            type: 'object',
+            properties: {
+              success: {
+                type: 'boolean',
+              },
+              data: {
+                type: 'object',
+                properties: {
+                  valid: {
+                    type: 'boolean',
+                  },
+                  fields: {
+                    type: 'object',
+                    description: 'Result per config field, keyed by path such as supabase.url',
+                    additionalProperties: {
+                      type: 'object',
+                      properties: {
+                        ok: {
+                          type: 'boolean',
+                        },
+                        message: {
+                          type: 'string',
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          DeploymentHistoryResponse: {
+            type: 'object',
+            properties: {
+              success: {
+                type: 'boolean',
+              },
+              data: {
+                type: 'object',
+                properties: {
+                  deployments: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        uuid: {
+                          type: 'string',
+                          format: 'uuid',
+                        },
+                        vercel_deployment_id: {
+                          type: 'string',
+                        },
+                        git_ref: {
+                          type: 'string',
+                        },
+                        target: {
+                          type: 'string',
+                        },
+                        env_var_keys: {
+                          type: 'array',
+                          items: {
+                            type: 'string',
+                          },
+                        },
+                        state: {
+                          type: 'string',
+                          enum: ['QUEUED', 'INITIALIZING', 'BUILDING', 'READY', 'ERROR', 'CANCELED'],
+                        },
+                        error_message: {
+                          type: 'string',
+                        },
+                        ready_at: {
+                          type: 'string',
+                          format: 'date-time',
+                        },
+                        created_at: {
+                          type: 'string',
+                          format: 'date-time',
+                        },
+                        updated_at: {
+                          type: 'string',
+                          format: 'date-time',
+                        },
+                      },
+                    },
+                  },
+                  pagination: {
+                    type: 'object',
+                    properties: {
+                      page: {
+                        type: 'integer',
+                      },
+                      limit: {
+                        type: 'integer',
+                      },
+                      total: {
+                        type: 'integer',
+                      },
+                      totalPages: {
+                        type: 'integer',
+                      },
+                    },
+                  },
                 },
               },
             },
@@ -117,12 +690,29 @@ export const getApiDocs = () => {
             properties: {
               status: {
                 type: 'string',
+                enum: ['ok', 'unhealthy'],
                 example: 'ok',
               },
               timestamp: {
                 type: 'string',
                 format: 'date-time',
               },
+              migrations: {
+                type: 'object',
+                properties: {
+                  checked: {
+                    type: 'boolean',
+                    description: 'False when DATABASE_URL is not set or the memory adapter is in use',
+                  },
+                  applied: { type: 'integer', example: 1 },
+                  pending: { type: 'array', items: { type: 'string' }, example: [] },
+                  changed: { type: 'array', items: { type: 'string' }, example: [] },
+                },
+              },
+              error: {
+                type: 'string',
+                example: 'Database unreachable',
+              },
             },
           },
         },
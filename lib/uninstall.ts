@@ -0,0 +1,87 @@
+import {
+  getAccountById,
+  getDecryptedToken,
+  getInstallationsByAccountId,
+  revokeAccountToken,
+  updateInstallation,
+} from './storage';
+import { VercelAPIClient, isVercelNotFound } from './vercel-api';
+import { ASSISTANT_ENV_KEYS } from './assistant-env';
+import { logger, Logger } from './logger';
+import { Installation, UninstallResult } from '@/types';
+
+// Uninstall an installation. Safe to run more than once: already removed resources are skipped.
+export async function uninstallInstallation(
+  installation: Installation,
+  options: {
+    removeEnvVars?: boolean; // Delete the env vars the integration wrote to the project
+    revokeIntegration?: boolean; // Remove the integration configuration on Vercel
+  } = {},
+  log: Logger = logger
+): Promise<UninstallResult> {
+  const { removeEnvVars = false, revokeIntegration = false } = options;
+  const alreadyUninstalled = installation.status === 'uninstalled';
+  const envVarsRemoved: string[] = [];
+
+  const accessToken = await getDecryptedToken(installation.account_id);
+
+  if (accessToken && !alreadyUninstalled) {
+    const account = await getAccountById(installation.account_id);
+    const vercelClient = new VercelAPIClient(accessToken, account?.vercel_team_id || undefined, log);
+
+    if (removeEnvVars && installation.vercel_project_id) {
+      const projectId = installation.vercel_project_id;
+      try {
+        const envs = await vercelClient.listEnvironmentVariables(projectId);
+        const ownedEnvs = envs.filter(env => (ASSISTANT_ENV_KEYS as readonly string[]).includes(env.key));
+
+        for (const env of ownedEnvs) {
+          try {
+            await vercelClient.deleteEnvironmentVariable(projectId, env.id);
+            envVarsRemoved.push(env.key);
+          } catch (error) {
+            if (!isVercelNotFound(error)) throw error;
+          }
+        }
+      } catch (error) {
+        // Project already deleted, nothing left to clean up
+        if (!isVercelNotFound(error)) throw error;
+      }
+    }
+
+    if (revokeIntegration) {
+      try {
+        await vercelClient.deleteIntegrationConfiguration(installation.installation_id);
+      } catch (error) {
+        if (!isVercelNotFound(error)) throw error;
+      }
+    }
+  }
+
+  if (!alreadyUninstalled) {
+    await updateInstallation(installation.uuid, {
+      status: 'uninstalled',
+      migration_secret_key: null,
+    });
+  }
+
+  // The account token is shared by its installations, so only drop it once none are left
+  const remaining = (await getInstallationsByAccountId(installation.account_id)).filter(
+    other => other.uuid !== installation.uuid && other.status !== 'uninstalled'
+  );
+
+  let tokenRevoked = false;
+  if (accessToken && remaining.length === 0) {
+    await revokeAccountToken(installation.account_id);
+    tokenRevoked = true;
+  }
+
+  log.info('Installation uninstalled', {
+    installationUuid: installation.uuid,
+    alreadyUninstalled,
+    envVarsRemoved,
+    tokenRevoked,
+  });
+
+  return { alreadyUninstalled, envVarsRemoved, tokenRevoked };
+}
@@ -1,47 +1,231 @@
-import axios, { AxiosInstance } from 'axios';
-import { VercelDeployment, VercelProject, VercelIntegrationConfiguration } from '@/types';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { logger as rootLogger, Logger } from './logger';
+import { AppError } from './errors';
+import { GIT_PROVIDER_NAMES } from './git-source';
+import { ASSISTANT_ENV_KEYS } from './assistant-env';
+import {
+  VercelDeployment,
+  VercelProject,
+  VercelIntegrationConfiguration,
+  VercelEnvVar,
+  EnvVarInput,
+  EnvVarTarget,
+  EnvUpsertResult,
+  GitRepoSource,
+  VercelGitSource,
+} from '@/types';
 
-const VERCEL_API_BASE = 'https://api.vercel.com';
+// VERCEL_API_URL and the git provider URLs point the client at a stand-in such as the test mock server
+const getVercelApiBase = () => process.env.VERCEL_API_URL || 'https://api.vercel.com';
+const getGitHubApiBase = () => process.env.GITHUB_API_URL || 'https://api.github.com';
+const getGitLabApiBase = () => process.env.GITLAB_API_URL || 'https://gitlab.com/api/v4';
+const getBitbucketApiBase = () => process.env.BITBUCKET_API_URL || 'https://api.bitbucket.org/2.0';
+
+const ALL_ENV_TARGETS: EnvVarTarget[] = ['production', 'preview', 'development'];
+const PROJECTS_PAGE_SIZE = 100; // Largest page /v9/projects returns
+
+// Retry and rate limit tuning
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+const MAX_RATE_LIMIT_WAIT_MS = 60000; // Longer waits fail instead of holding the request open
+const MAX_CONCURRENT_REQUESTS = 4;
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+
+// Thrown for every failed Vercel API call instead of the raw axios error
+export class VercelAPIError extends Error {
+  readonly status?: number; // Undefined for network errors
+  readonly code?: string; // Vercel error code, e.g. "forbidden" or "not_found"
+  readonly endpoint: string; // "<METHOD> <path>"
+  readonly invalidToken: boolean; // Set by Vercel when the token was revoked or expired
+
+  constructor(message: string, options: { status?: number; code?: string; endpoint: string; invalidToken?: boolean }) {
+    super(message);
+    this.name = 'VercelAPIError';
+    this.status = options.status;
+    this.code = options.code;
+    this.endpoint = options.endpoint;
+    this.invalidToken = options.invalidToken ?? false;
+  }
+
+  static fromAxiosError(error: AxiosError<any>): VercelAPIError {
+    const data = error.response?.data;
+    const message = data?.error?.message || data?.message || data?.error_description || error.message;
+    return new VercelAPIError(message, {
+      status: error.response?.status,
+      code: data?.error?.code || (typeof data?.error === 'string' ? data.error : undefined) || error.code,
+      endpoint: `${error.config?.method?.toUpperCase() || 'GET'} ${error.config?.url || ''}`,
+      invalidToken: Boolean(data?.error?.invalidToken),
+    });
+  }
+}
+
+export const isVercelNotFound = (error: unknown): boolean =>
+  error instanceof VercelAPIError && error.status === 404;
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  retryCount?: number;
+}
+
+// Caps the number of in-flight requests per client; callers beyond the limit wait in FIFO order
+class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next(); // Slot passes straight to the next caller
+    } else {
+      this.active--;
+    }
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// x-ratelimit-reset is a Unix timestamp in seconds; Retry-After is seconds from now
+function getRateLimitDelay(headers: Record<string, unknown> | undefined): number | null {
+  const reset = Number(headers?.['x-ratelimit-reset']);
+  if (reset) return Math.max(0, reset * 1000 - Date.now());
+
+  const retryAfter = Number(headers?.['retry-after']);
+  if (retryAfter) return retryAfter * 1000;
+
+  return null;
+}
+
+function getBackoffDelay(attempt: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function sameTargets(a: EnvVarTarget[], b: EnvVarTarget[]): boolean {
+  return a.length === b.length && a.every(target => b.includes(target));
+}
 
 export class VercelAPIClient {
   private client: AxiosInstance;
+  private log: Logger;
+  private limiter = new ConcurrencyLimiter(MAX_CONCURRENT_REQUESTS);
+  private rateLimitedUntil = 0;
+
+  constructor(accessToken: string, teamId?: string, log: Logger = rootLogger) {
+    this.log = log.child({ component: 'vercel-api' });
 
-  constructor(accessToken: string, teamId?: string) {
     this.client = axios.create({
-      baseURL: VERCEL_API_BASE,
+      baseURL: getVercelApiBase(),
       headers: {
         Authorization: `Bearer ${accessToken}`,
       },
       params: teamId ? { teamId } : {},
     });
 
-    // Add request interceptor for logging
-    this.client.interceptors.request.use(
-      (config) => {
-        console.log(`🔵 API CALL: ${config.method?.toUpperCase()} ${config.url}`);
-        return config;
-      },
-      (error) => {
-        console.error('❌ Request Error:', error);
-        return Promise.reject(error);
+    // Wait for a free slot and for any rate limit window to pass before sending.
+    // Log the request line and status only; headers and bodies carry tokens and env values.
+    this.client.interceptors.request.use(async (config) => {
+      await this.limiter.acquire();
+
+      const wait = this.rateLimitedUntil - Date.now();
+      if (wait > 0) {
+        this.log.info('Waiting for Vercel rate limit reset', { waitMs: wait });
+        await sleep(wait);
       }
-    );
 
-    // Add response interceptor for logging
+      this.log.debug('Vercel API request', { method: config.method?.toUpperCase(), url: config.url });
+      return config;
+    });
+
     this.client.interceptors.response.use(
       (response) => {
-        console.log(`🟢 API SUCCESS: ${response.status} ${response.config.method?.toUpperCase()} ${response.config.url}`);
+        this.limiter.release();
+        this.trackRateLimit(response.headers);
+        this.log.info('Vercel API response', {
+          method: response.config.method?.toUpperCase(),
+          url: response.config.url,
+          status: response.status,
+        });
         return response;
       },
-      (error) => {
-        console.log(`🔴 API ERROR: ${error.response?.status || 'NO_STATUS'} ${error.config?.method?.toUpperCase()} ${error.config?.url}`);
-        return Promise.reject(error);
+      (error: AxiosError<any>) => {
+        this.limiter.release();
+        return this.retryOrThrow(error);
       }
     );
   }
 
+  // Stop sending once the window is used up, until Vercel says it resets
+  private trackRateLimit(headers: Record<string, unknown>) {
+    if (Number(headers['x-ratelimit-remaining']) === 0) {
+      const delay = getRateLimitDelay(headers);
+      if (delay !== null && delay <= MAX_RATE_LIMIT_WAIT_MS) {
+        this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + delay);
+      }
+    }
+  }
+
+  // 429s are retried for every method since Vercel didn't process the request; 5xx and network
+  // errors only for idempotent methods, as a POST may have gone through before failing.
+  private async retryOrThrow(error: AxiosError<any>): Promise<any> {
+    const config = error.config as RetryableRequestConfig | undefined;
+    const status = error.response?.status;
+    const method = config?.method?.toLowerCase() || 'get';
+    const attempt = config?.retryCount || 0;
+
+    this.log.warn('Vercel API error response', {
+      method: method.toUpperCase(),
+      url: config?.url,
+      status,
+      code: error.response?.data?.error?.code || error.code,
+      attempt,
+    });
+
+    if (!config || attempt >= MAX_RETRIES) {
+      throw VercelAPIError.fromAxiosError(error);
+    }
+
+    let delay: number | null = null;
+    if (status === 429) {
+      const rateLimitDelay = getRateLimitDelay(error.response?.headers as Record<string, unknown>);
+      if (rateLimitDelay !== null && rateLimitDelay > MAX_RATE_LIMIT_WAIT_MS) {
+        throw VercelAPIError.fromAxiosError(error);
+      }
+      delay = rateLimitDelay ?? getBackoffDelay(attempt);
+      this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + delay);
+    } else if ((status === undefined || RETRYABLE_STATUSES.includes(status)) && IDEMPOTENT_METHODS.includes(method)) {
+      delay = getBackoffDelay(attempt);
+    }
+
+    if (delay === null) {
+      throw VercelAPIError.fromAxiosError(error);
+    }
+
+    this.log.info('Retrying Vercel API request', {
+      method: method.toUpperCase(),
+      url: config.url,
+      attempt: attempt + 1,
+      delayMs: Math.round(delay),
+    });
+    await sleep(delay);
+
+    config.retryCount = attempt + 1;
+    return this.client.request(config);
+  }
+
   // Exchange OAuth code for access token
-  static async exchangeOAuthCode(code: string): Promise<any> {
+  static async exchangeOAuthCode(code: string, log: Logger = rootLogger): Promise<any> {
     const params = new URLSearchParams({
       client_id: process.env.VERCEL_CLIENT_ID!,
       client_secret: process.env.VERCEL_CLIENT_SECRET!,
@@ -49,37 +233,74 @@ export class VercelAPIClient {
       redirect_uri: process.env.VERCEL_REDIRECT_URI!,
     });
 
-    console.log('🔵 VERCEL OAUTH REQUEST: POST /v2/oauth/access_token');
-    console.log('📤 OAuth Params:', Object.fromEntries(params.entries()));
+    log.info('Vercel OAuth token exchange', { url: '/v2/oauth/access_token' });
+
+    let response;
+    try {
+      response = await axios.post(
+        `${getVercelApiBase()}/v2/oauth/access_token`,
+        params.toString(),
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+        }
+      );
+    } catch (error) {
+      // The axios error carries the request body (client secret and code), so never rethrow it as-is
+      const apiError = VercelAPIError.fromAxiosError(error as AxiosError<any>);
+      log.error('Vercel OAuth token exchange failed', { status: apiError.status, code: apiError.code });
+      throw new VercelAPIError(`OAuth token exchange failed: ${apiError.message}`, {
+        status: apiError.status,
+        code: apiError.code,
+        endpoint: 'POST /v2/oauth/access_token',
+      });
+    }
+
+    // Response body holds the access token; only log the status
+    log.info('Vercel OAuth token exchange succeeded', { status: response.status });
 
-    const response = await axios.post(
-      `${VERCEL_API_BASE}/v2/oauth/access_token`,
-      params.toString(),
-      {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-      }
-    );
-    
-    console.log('🟢 VERCEL OAUTH RESPONSE:', response.status);
-    console.log('📥 OAuth Response Data:', JSON.stringify(response.data, null, 2));
-    
     return response.data;
   }
 
 
   // Get integration configuration (to retrieve selected projects)
   async getIntegrationConfiguration(configurationId: string): Promise<VercelIntegrationConfiguration> {
-    console.log('🔵 API CALL: GET /v1/integrations/configuration');
     const response = await this.client.get(`/v1/integrations/configuration/${configurationId}`);
     return response.data;
   }
 
   // Get projects
   async getProjects(): Promise<VercelProject[]> {
-    const response = await this.client.get('/v9/projects');
-    return response.data.projects;
+    // Results are paged; pagination.next is the `until` cursor of the next page, null on the last one
+    const projects: VercelProject[] = [];
+    let until: number | null | undefined;
+    do {
+      const response = await this.client.get('/v9/projects', {
+        params: { limit: PROJECTS_PAGE_SIZE, ...(until && { until }) },
+      });
+      projects.push(...response.data.projects);
+      until = response.data.pagination?.next;
+    } while (until);
+
+    return projects;
+  }
+
+  // Get a single project by ID or name
+  async getProject(idOrName: string): Promise<VercelProject> {
+    const response = await this.client.get(`/v9/projects/${idOrName}`);
+    return response.data;
+  }
+
+  // Projects the integration configuration has access to
+  async getConfigurationProjects(configurationId: string): Promise<VercelProject[]> {
+    const config = await this.getIntegrationConfiguration(configurationId);
+
+    const projects = config.projectSelection === 'selected'
+      ? await Promise.all((config.projects || []).map(projectId => this.getProject(projectId)))
+      : await this.getProjects();
+
+    return projects.map(({ id, name, framework }) => ({ id, name, framework: framework ?? null }));
   }
 
 
@@ -99,110 +320,121 @@ export class VercelAPIClient {
     return response.data;
   }
 
-  // Get GitHub repository ID (from env or API)
-  async getGitHubRepoId(repoPath: string): Promise<string> {
-    // First try to get from environment variable
+  // Provider id of a repository: GitHub repo id, GitLab project id, or Bitbucket repo and workspace UUIDs.
+  // ASSISTANT_SERVER_REPO_ID skips the lookup; ASSISTANT_SERVER_REPO_TOKEN authenticates it for private repos.
+  async getGitRepoId(source: GitRepoSource): Promise<{ repoId: string; workspaceUuid?: string }> {
+    const { provider, repo } = source;
     const envRepoId = process.env.ASSISTANT_SERVER_REPO_ID;
     if (envRepoId) {
-      console.log('✅ Using GitHub repo ID from env:', envRepoId);
-      return envRepoId;
+      this.log.debug('Using repo ID from env', { provider, repoId: envRepoId });
+      return { repoId: envRepoId };
     }
 
-    console.log('🔵 API CALL: GET GitHub API for repo ID');
-    
+    const token = process.env.ASSISTANT_SERVER_REPO_TOKEN;
     try {
-      // Use GitHub API to get repository ID
-      const response = await axios.get(`https://api.github.com/repos/${repoPath}`, {
-        headers: {
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'Vercel-Integration-Server',
-        },
-      });
-      
-      const repoId = response.data.id.toString();
-      console.log('✅ GitHub repo ID found:', repoId);
-      return repoId;
+      let result: { repoId: string; workspaceUuid?: string };
+      switch (provider) {
+        case 'github': {
+          const response = await axios.get(`${getGitHubApiBase()}/repos/${repo}`, {
+            headers: {
+              'Accept': 'application/vnd.github.v3+json',
+              'User-Agent': 'Vercel-Integration-Server',
+              ...(token && { Authorization: `Bearer ${token}` }),
+            },
+          });
+          result = { repoId: response.data.id.toString() };
+          break;
+        }
+        case 'gitlab': {
+          // Projects are addressed by their URL-encoded full path, subgroups included
+          const response = await axios.get(`${getGitLabApiBase()}/projects/${encodeURIComponent(repo)}`, {
+            headers: token ? { 'PRIVATE-TOKEN': token } : {},
+          });
+          result = { repoId: response.data.id.toString() };
+          break;
+        }
+        case 'bitbucket': {
+          const response = await axios.get(`${getBitbucketApiBase()}/repositories/${repo}`, {
+            headers: token ? { Authorization: `Bearer ${token}` } : {},
+          });
+          result = { repoId: response.data.uuid, workspaceUuid: response.data.workspace?.uuid };
+          break;
+        }
+      }
+
+      this.log.info('Repo ID found', { provider, repo, repoId: result.repoId });
+      return result;
     } catch (error) {
-      console.error('❌ Failed to get GitHub repo ID:', error);
-      throw new Error(`Failed to get GitHub repository ID for ${repoPath}`);
+      this.log.error('Failed to get repo ID', { provider, repo, error });
+      throw new AppError(
+        'GIT_REPO_INACCESSIBLE',
+        `Failed to get ${GIT_PROVIDER_NAMES[provider]} repository ID for ${repo}`
+      );
     }
   }
 
-  // Import GitHub repository to Vercel
-  async importGitHubRepo(repoPath: string, projectName: string) {
-    console.log('🔵 API CALL: POST /v10/projects/import');
-    
+  // Deployment gitSource for a branch of the repository, in the fields Vercel expects for its provider
+  async getGitSource(source: GitRepoSource, branch: string): Promise<VercelGitSource> {
+    const { repoId, workspaceUuid } = await this.getGitRepoId(source);
+    const ref = `refs/heads/${branch}`;
+
+    switch (source.provider) {
+      case 'github':
+        return { type: 'github', repoId, ref };
+      case 'gitlab':
+        return { type: 'gitlab', projectId: repoId, ref };
+      case 'bitbucket':
+        return { type: 'bitbucket', repoUuid: repoId, ...(workspaceUuid && { workspaceUuid }), ref };
+    }
+  }
+
+  // Import a git repository to Vercel as a new project
+  async importGitRepo(source: GitRepoSource, projectName: string): Promise<VercelProject> {
     const response = await this.client.post('/v10/projects/import', {
       name: projectName,
       gitRepository: {
-        type: 'github',
-        repo: repoPath,
+        type: source.provider,
+        repo: source.repo,
       },
     });
     
     return response.data;
   }
 
-  // Deploy from GitHub using integration configuration
-  async deployFromGitHub(params: {
-    configurationId: string;
-    repo: string;
+  // Deploy a branch of a git repository to an explicitly chosen project
+  async deployFromGitRepo(params: {
+    projectId: string;
+    projectName: string;
+    source: GitRepoSource;
     branch?: string;
-    envVariables?: Record<string, string>;
+    envVariables?: Record<string, string | EnvVarInput>;
     target?: 'preview' | 'production';
   }) {
-    const { configurationId, repo, branch = 'main', envVariables = {}, target = 'production' } = params;
-
-    // Convert full GitHub URL to owner/repo format
-    let repoPath = repo;
-    if (repo.startsWith('https://github.com/')) {
-      repoPath = repo.replace('https://github.com/', '');
-    }
+    const { projectId, projectName, source, branch = 'main', envVariables = {}, target = 'production' } = params;
 
-    console.log('🚀 Starting deployment:', { configurationId, repoPath, branch, target });
-
-    // Get integration configuration to retrieve selected projects
-    const config = await this.getIntegrationConfiguration(configurationId);
-
-    // Use the first project (simplified logic)
-    let projectId: string;
-    if (config.projects && config.projects.length > 0) {
-      // Use the first selected project
-      projectId = config.projects[0];
-    } else {
-      // If no specific projects, get all projects and use the first one
-      const projects = await this.getProjects();
-      if (projects.length === 0) {
-        throw new Error('No projects found in the account');
-      }
-      projectId = projects[0].id;
-    }
+    this.log.info('Starting deployment', { projectId, provider: source.provider, repo: source.repo, branch, target });
 
     // Set environment variables on the project
+    let envResult: EnvUpsertResult = { added: [], changed: [], unchanged: [], removed: [] };
     if (Object.keys(envVariables).length > 0) {
-      console.log('🔧 Setting environment variables...');
-      await this.setEnvironmentVariables(projectId, envVariables);
+      this.log.info('Setting environment variables', { projectId, keys: Object.keys(envVariables) });
+      envResult = await this.setEnvironmentVariables(projectId, envVariables);
     }
 
-    // Deploy using repoId-based gitSource
-    console.log('🔵 API CALL: POST /v13/deployments');
-    const repoId = await this.getGitHubRepoId(repoPath);
+    const gitSource = await this.getGitSource(source, branch);
 
     const deployment = await this.client.post('/v13/deployments', {
-      name: 'assistant-server',
+      name: projectName,
       project: projectId,
       target, // 'production' by default
-      gitSource: {
-        type: 'github',
-        repoId: repoId,
-        ref: `refs/heads/${branch}`,
-      },
+      gitSource,
     });
 
-    console.log('✅ Deployment created:', deployment.data.id);
+    this.log.info('Deployment created', { projectId, deploymentId: deployment.data.id });
     return {
-      project: { id: projectId, name: 'assistant-server' },
+      project: { id: projectId, name: projectName },
       deployment: deployment.data,
+      envVariables: envResult,
     };
   }
 
@@ -212,20 +444,84 @@ export class VercelAPIClient {
     return response.data;
   }
 
-  // Set environment variables
-  async setEnvironmentVariables(projectId: string, variables: Record<string, string>) {
-    const envs = Object.entries(variables).map(([key, value]) => ({
-      key,
-      value,
-      type: 'encrypted',
-      target: ['production', 'preview', 'development'],
-    }));
+  // Remove the integration configuration (revokes the access token on Vercel's side)
+  async deleteIntegrationConfiguration(configurationId: string): Promise<void> {
+    await this.client.delete(`/v1/integrations/configuration/${configurationId}`);
+  }
 
-    const promises = envs.map(env =>
-      this.client.post(`/v10/projects/${projectId}/env`, env)
-    );
+  // List environment variables of a project
+  async listEnvironmentVariables(projectId: string, options: { decrypt?: boolean } = {}): Promise<VercelEnvVar[]> {
+    const response = await this.client.get(`/v9/projects/${projectId}/env`, {
+      params: options.decrypt ? { decrypt: 'true' } : {},
+    });
+    return response.data.envs;
+  }
 
-    await Promise.all(promises);
+  // Delete a single environment variable by its ID
+  async deleteEnvironmentVariable(projectId: string, envId: string): Promise<void> {
+    await this.client.delete(`/v9/projects/${projectId}/env/${envId}`);
   }
-}
 
+  // Upsert environment variables: create missing keys, update changed ones and leave matching ones untouched.
+  // A plain string value uses the default targets; pass an object to choose targets per key.
+  async setEnvironmentVariables(
+    projectId: string,
+    variables: Record<string, string | EnvVarInput>,
+    options: {
+      defaultTarget?: EnvVarTarget[];
+      removeUnknown?: boolean; // Delete assistant server env vars (ASSISTANT_ENV_KEYS) that are not in `variables`
+    } = {}
+  ): Promise<EnvUpsertResult> {
+    const { defaultTarget = ALL_ENV_TARGETS, removeUnknown = false } = options;
+    const result: EnvUpsertResult = { added: [], changed: [], unchanged: [], removed: [] };
+
+    const existing = await this.listEnvironmentVariables(projectId, { decrypt: true });
+    const byKey = new Map<string, VercelEnvVar[]>();
+    for (const env of existing) {
+      byKey.set(env.key, [...(byKey.get(env.key) || []), env]);
+    }
+
+    const operations: Promise<unknown>[] = [];
+
+    for (const [key, input] of Object.entries(variables)) {
+      const desired = typeof input === 'string' ? { value: input } : input;
+      const target = desired.target || defaultTarget;
+      const type = desired.type || 'encrypted';
+      const [current, ...duplicates] = byKey.get(key) || [];
+
+      if (!current) {
+        operations.push(this.client.post(`/v10/projects/${projectId}/env`, { key, value: desired.value, type, target }));
+        result.added.push(key);
+        continue;
+      }
+
+      // Sensitive values can't be read back, so they always count as changed
+      const sameValue = current.value !== undefined && current.value === desired.value;
+      const sameTarget = sameTargets(current.target || [], target);
+      if (sameValue && sameTarget && current.type === type && duplicates.length === 0) {
+        result.unchanged.push(key);
+        continue;
+      }
+
+      // Extra entries for the same key would overlap the updated targets
+      operations.push(
+        Promise.all(duplicates.map(env => this.deleteEnvironmentVariable(projectId, env.id))).then(() =>
+          this.client.patch(`/v9/projects/${projectId}/env/${current.id}`, { value: desired.value, type, target })
+        )
+      );
+      result.changed.push(key);
+    }
+
+    // System and user-added env vars are never ours to remove
+    if (removeUnknown) {
+      for (const [key, envs] of byKey) {
+        if (key in variables || !(ASSISTANT_ENV_KEYS as readonly string[]).includes(key)) continue;
+        operations.push(...envs.map(env => this.deleteEnvironmentVariable(projectId, env.id)));
+        result.removed.push(key);
+      }
+    }
+
+    await Promise.all(operations);
+    return result;
+  }
+}
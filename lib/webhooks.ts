@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+
+// Verify the x-vercel-signature header (HMAC-SHA1 of the raw body, keyed with the client secret)
+export function verifyWebhookSignature(rawBody: string, signature: string | null): boolean {
+  const secret = process.env.VERCEL_CLIENT_SECRET;
+  if (!secret || !signature) {
+    return false;
+  }
+
+  const expected = crypto
+    .createHmac('sha1', secret)
+    .update(rawBody, 'utf8')
+    .digest('hex');
+
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const signatureBuffer = Buffer.from(signature, 'utf8');
+
+  if (expectedBuffer.length !== signatureBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+}
@@ -1,15 +1,25 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { REQUEST_ID_HEADER } from '@/lib/request-id';
+
+// Accept an upstream request id only if it looks like one
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{8,128}$/;
 
 export function middleware(request: NextRequest) {
-  // Add security headers
+  // Tag every request with an id that route handlers attach to their logs
+  const incomingId = request.headers.get(REQUEST_ID_HEADER);
+  const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+
   const headers = new Headers(request.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
   const response = NextResponse.next({
     request: {
       headers,
     },
   });
 
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+
   // Security headers
   response.headers.set('X-Frame-Options', 'DENY');
   response.headers.set('X-Content-Type-Options', 'nosniff');
@@ -1,6 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  // lib/migrations.ts reads the SQL files at runtime (startup check and /api/health)
+  outputFileTracingIncludes: {
+    '/**/*': ['./supabase/**/*.sql'],
+  },
+}
 
 module.exports = nextConfig
-
-
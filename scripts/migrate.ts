@@ -0,0 +1,47 @@
+import { applyMigrations, getMigrationStatus } from '@/lib/migrations';
+import { logger } from '@/lib/logger';
+
+const log = logger.child({ script: 'migrate' });
+
+// npm run migrate          apply pending migrations
+// npm run migrate:status   list applied and pending migrations; exits 1 when not up to date
+async function main() {
+  const command = process.argv[2] || 'up';
+
+  if (command === 'status') {
+    const status = await getMigrationStatus();
+    for (const row of status.applied) {
+      log.info('Applied', { version: row.version, name: row.name, appliedAt: row.applied_at });
+    }
+    for (const migration of status.changed) {
+      log.error('Modified after being applied', { version: migration.version, name: migration.name });
+    }
+    for (const row of status.unknown) {
+      log.warn('Applied but missing on disk', { version: row.version, name: row.name });
+    }
+    for (const migration of status.pending) {
+      log.warn('Pending', { version: migration.version, name: migration.name });
+    }
+    log.info(status.upToDate ? 'Database is up to date' : 'Database is not up to date', {
+      applied: status.applied.length,
+      pending: status.pending.length,
+      changed: status.changed.length,
+    });
+    if (!status.upToDate) process.exitCode = 1;
+    return;
+  }
+
+  if (command !== 'up') {
+    throw new Error(`Unknown command "${command}". Use "up" or "status".`);
+  }
+
+  const applied = await applyMigrations(migration =>
+    log.info('Applied migration', { version: migration.version, name: migration.name })
+  );
+  log.info(applied.length > 0 ? 'Migrations applied' : 'No pending migrations', { count: applied.length });
+}
+
+main().catch(error => {
+  log.error('Migration failed', { error });
+  process.exit(1);
+});
@@ -0,0 +1,30 @@
+import { assertEncryptionConfigured, enableDefaultLegacyKey } from '@/lib/encryption';
+import { reencryptAccountTokens, reencryptMigrationSecrets } from '@/lib/key-rotation';
+import { logger } from '@/lib/logger';
+
+const log = logger.child({ script: 'reencrypt-secrets' });
+
+// Re-encrypts stored secrets with the current key. Run after adding a new key to ENCRYPTION_KEYS,
+// then remove the old key once every row reports as unchanged.
+// --legacy-default-key reads rows written without ENCRYPTION_KEY, which used the old built-in default.
+async function main() {
+  if (process.argv.includes('--legacy-default-key')) {
+    enableDefaultLegacyKey();
+  }
+  assertEncryptionConfigured();
+
+  const tokens = await reencryptAccountTokens();
+  log.info('Re-encrypted secrets', { column: 'accounts.access_token', result: tokens });
+
+  const migrationSecrets = await reencryptMigrationSecrets();
+  log.info('Re-encrypted secrets', { column: 'installations.migration_secret_key', result: migrationSecrets });
+
+  if (tokens.failed.length > 0 || migrationSecrets.failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  log.error('Re-encryption failed', { error });
+  process.exit(1);
+});
@@ -0,0 +1,11 @@
+-- Accounts are per scope: one row for a user's personal scope and one per team they installed into,
+-- each with its own token. Previously a second install by the same user overwrote the first.
+
+ALTER TABLE accounts DROP CONSTRAINT IF EXISTS accounts_vercel_user_id_key;
+
+-- Personal scope is '' so it takes part in the unique key (NULLs never conflict)
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS scope TEXT GENERATED ALWAYS AS (COALESCE(vercel_team_id, '')) STORED;
+
+ALTER TABLE accounts
+  ADD CONSTRAINT accounts_vercel_user_scope_key UNIQUE (vercel_user_id, scope);
@@ -0,0 +1,3 @@
+-- When each rotatable secret of the deployed assistant server last changed, keyed by env var name
+ALTER TABLE installations
+  ADD COLUMN IF NOT EXISTS secrets_rotated_at JSONB DEFAULT '{}'::jsonb;
@@ -0,0 +1,6 @@
+-- Columns written by deploy and the post-deploy bootstrap (migrate, seed, generate-key).
+-- They were first added to schema.sql only, so databases created before them never got them.
+ALTER TABLE installations
+  ADD COLUMN IF NOT EXISTS deployment_id TEXT,
+  ADD COLUMN IF NOT EXISTS migration_secret_key TEXT, -- Encrypted
+  ADD COLUMN IF NOT EXISTS bootstrap_steps JSONB DEFAULT '{}'::jsonb; -- Result of each step
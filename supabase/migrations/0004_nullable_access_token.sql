@@ -0,0 +1,2 @@
+-- Uninstall clears the account token; schema.sql only dropped NOT NULL for newly created databases
+ALTER TABLE accounts ALTER COLUMN access_token DROP NOT NULL;
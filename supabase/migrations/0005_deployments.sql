@@ -0,0 +1,20 @@
+-- Deployment history per installation. Like the columns in 0003, the table was first added to
+-- schema.sql only, so databases created before it have no deployments table.
+CREATE TABLE IF NOT EXISTS deployments (
+  id SERIAL PRIMARY KEY,
+  uuid UUID DEFAULT gen_random_uuid() UNIQUE NOT NULL,
+  installation_id INTEGER REFERENCES installations(id) ON DELETE CASCADE,
+  vercel_deployment_id TEXT UNIQUE NOT NULL,
+  git_ref TEXT,
+  target TEXT,
+  env_var_keys TEXT[] DEFAULT '{}', -- Key names only, never values
+  state TEXT DEFAULT 'QUEUED', -- 'QUEUED', 'INITIALIZING', 'BUILDING', 'READY', 'ERROR', 'CANCELED'
+  error_message TEXT,
+  ready_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deployments_installation ON deployments(installation_id, created_at DESC);
+
+ALTER TABLE deployments ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,282 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { POST as deploy } from '@/app/api/deploy/route';
+import { getInstallationById, listDeployments, revokeAccountToken } from '@/lib/storage';
+import { decrypt } from '@/lib/encryption';
+import { getStorageAdapter } from '@/lib/adapters';
+import { assertRepoSourceConfigured } from '@/lib/git-source';
+import { startMockVercelServer, MockVercelServer } from './mocks/vercel-server';
+import { APP_URL, ASSISTANT_REPO, buildRequest, configureTestEnv, resetState, seedInstallation, sessionCookieFor, validConfig } from './helpers';
+
+describe('POST /api/deploy', () => {
+  let mock: MockVercelServer;
+  let seeded: Awaited<ReturnType<typeof seedInstallation>>;
+
+  before(async () => {
+    mock = await startMockVercelServer();
+    configureTestEnv(mock);
+  });
+
+  after(() => mock.close());
+
+  beforeEach(async () => {
+    resetState(mock);
+    seeded = await seedInstallation(mock);
+  });
+
+  const deployRequest = (body: Record<string, unknown> = {}, cookies = seeded.cookies) =>
+    buildRequest('/api/deploy', {
+      method: 'POST',
+      cookies,
+      body: { configurationId: seeded.configurationId, config: validConfig, projectId: seeded.projectId, ...body },
+    });
+
+  const expectError = async (response: Response, status: number, code: string) => {
+    const data = await response.json();
+    assert.equal(response.status, status, JSON.stringify(data));
+    assert.equal(data.code, code);
+    return data;
+  };
+
+  describe('success', () => {
+    it('sets the env vars, starts a deployment and records it', async () => {
+      const response = await deploy(deployRequest());
+      const data = await response.json();
+
+      assert.equal(response.status, 200, JSON.stringify(data));
+      assert.ok(data.data.deploymentId);
+      assert.equal(data.data.projectName, 'assistant-server');
+      assert.equal(data.data.adminEmail, 'admin@example.com');
+      assert.ok(data.data.adminPassword.length >= 24);
+
+      const env = Object.fromEntries(mock.getEnv(seeded.projectId).map(e => [e.key, e.value]));
+      assert.equal(env.OPENAI_API_KEY, 'sk-test-key');
+      assert.equal(env.DEFAULT_ADMIN_EMAIL, 'admin@example.com');
+      assert.deepEqual(data.data.envVariables.added.sort(), Object.keys(env).sort());
+
+      const deployRequestBody = mock.requests.find(r => r.method === 'POST' && r.path === '/v13/deployments')!.body;
+      assert.equal(deployRequestBody.project, seeded.projectId);
+      assert.equal(deployRequestBody.gitSource.repoId, '1066522680');
+
+      const installation = await getInstallationById(seeded.configurationId);
+      assert.equal(installation?.status, 'installed');
+      assert.equal(installation?.deployment_id, data.data.deploymentId);
+      assert.ok(installation?.migration_secret_key && decrypt(installation.migration_secret_key));
+
+      const { deployments } = await listDeployments(seeded.installation.id, { limit: 10, offset: 0 });
+      assert.equal(deployments.length, 1);
+      assert.ok(deployments[0].env_var_keys.includes('OPENAI_API_KEY'));
+    });
+
+    it('still returns the admin credentials when the history entry cannot be written', async () => {
+      getStorageAdapter().insertDeployment = async () => {
+        throw new Error('deployments table unavailable');
+      };
+
+      const response = await deploy(deployRequest());
+      const data = await response.json();
+
+      assert.equal(response.status, 200, JSON.stringify(data));
+      assert.ok(data.data.adminPassword.length >= 24);
+      assert.equal((await getInstallationById(seeded.configurationId))?.status, 'installed');
+    });
+
+    it('deploys to a project past the first page when the configuration grants all projects', async () => {
+      mock.addConfiguration({ id: seeded.configurationId, projectSelection: 'all' });
+      for (let i = 0; i < 120; i++) {
+        mock.addProject({ id: `prj_filler_${i}`, name: `filler-${i}` });
+      }
+
+      const response = await deploy(deployRequest({ projectId: 'prj_filler_119' }));
+      const data = await response.json();
+
+      assert.equal(response.status, 200, JSON.stringify(data));
+      assert.equal(data.data.projectName, 'filler-119');
+      assert.equal(mock.requests.filter(r => r.method === 'GET' && r.path === '/v9/projects').length, 2);
+    });
+
+    it('creates a new project when asked to', async () => {
+      const response = await deploy(deployRequest({ projectId: undefined, createProject: true, projectName: 'my-assistant' }));
+      const data = await response.json();
+
+      assert.equal(response.status, 200, JSON.stringify(data));
+      assert.equal(data.data.projectName, 'my-assistant');
+    });
+
+    it('leaves matching env vars unchanged when deploying to the same project again', async () => {
+      await deploy(deployRequest());
+      const response = await deploy(deployRequest());
+      const data = await response.json();
+
+      assert.equal(response.status, 200);
+      assert.deepEqual(data.data.envVariables.added, []);
+      assert.ok(data.data.envVariables.unchanged.includes('OPENAI_API_KEY'));
+    });
+  });
+
+  describe('repository providers', () => {
+    afterEach(() => {
+      process.env.ASSISTANT_SERVER_REPO = ASSISTANT_REPO;
+      delete process.env.ASSISTANT_SERVER_REPO_PROVIDER;
+    });
+
+    const requestBody = (path: string) => mock.requests.find(r => r.method === 'POST' && r.path === path)!.body;
+
+    it('imports and deploys a GitLab repository given by URL, subgroups included', async () => {
+      mock.addRepo('vezlo/forks/assistant-server', 4242, 'gitlab');
+      process.env.ASSISTANT_SERVER_REPO = 'https://gitlab.com/vezlo/forks/assistant-server.git';
+
+      const response = await deploy(deployRequest({ projectId: undefined, createProject: true, projectName: 'my-assistant' }));
+      assert.equal(response.status, 200, JSON.stringify(await response.clone().json()));
+
+      assert.deepEqual(requestBody('/v10/projects/import').gitRepository, {
+        type: 'gitlab',
+        repo: 'vezlo/forks/assistant-server',
+      });
+      assert.deepEqual(requestBody('/v13/deployments').gitSource, {
+        type: 'gitlab',
+        projectId: '4242',
+        ref: 'refs/heads/main',
+      });
+    });
+
+    it('deploys a Bitbucket repository chosen with ASSISTANT_SERVER_REPO_PROVIDER', async () => {
+      mock.addRepo(ASSISTANT_REPO, '{5d1c1e2a-0b6f-4c1e-9a53-1f0c7b6e2d11}', 'bitbucket');
+      process.env.ASSISTANT_SERVER_REPO_PROVIDER = 'bitbucket';
+
+      const response = await deploy(deployRequest());
+      assert.equal(response.status, 200, JSON.stringify(await response.clone().json()));
+
+      assert.deepEqual(requestBody('/v13/deployments').gitSource, {
+        type: 'bitbucket',
+        repoUuid: '{5d1c1e2a-0b6f-4c1e-9a53-1f0c7b6e2d11}',
+        workspaceUuid: '{workspace-vezlo}',
+        ref: 'refs/heads/main',
+      });
+    });
+
+    it('GIT_REPO_INACCESSIBLE when the GitLab project does not exist', async () => {
+      process.env.ASSISTANT_SERVER_REPO_PROVIDER = 'gitlab';
+      await expectError(await deploy(deployRequest()), 422, 'GIT_REPO_INACCESSIBLE');
+    });
+
+    it('refuses to start with a repository URL on an unsupported host', () => {
+      process.env.ASSISTANT_SERVER_REPO = 'https://gitlab.example.com/vezlo/assistant-server';
+      assert.throws(() => assertRepoSourceConfigured(), /Unsupported repository host "gitlab.example.com"/);
+    });
+  });
+
+  describe('errors', () => {
+    it('VALIDATION_FAILED for a body that is not JSON', async () => {
+      const request = new NextRequest(new URL('/api/deploy', APP_URL), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Cookie: deployRequest().headers.get('cookie')! },
+        body: '{"configurationId":',
+      });
+      await expectError(await deploy(request), 400, 'VALIDATION_FAILED');
+    });
+
+    it('401 without a session', async () => {
+      const response = await deploy(deployRequest({}, {}));
+      assert.equal(response.status, 401);
+    });
+
+    it('403 for a session issued to another account', async () => {
+      const other = await seedInstallation(mock, { configurationId: 'icfg_other', userId: 'user_other' });
+      const response = await deploy(deployRequest({}, sessionCookieFor(other.account, other.installation)));
+      assert.equal(response.status, 403);
+    });
+
+    it('VALIDATION_FAILED for an invalid config', async () => {
+      const data = await expectError(
+        await deploy(deployRequest({ config: { ...validConfig, admin: { email: 'not-an-email' } } })),
+        400,
+        'VALIDATION_FAILED'
+      );
+      assert.ok(Array.isArray(data.details));
+    });
+
+    it('INSTALLATION_NOT_FOUND for an unknown configuration', async () => {
+      await expectError(await deploy(deployRequest({ configurationId: 'icfg_missing' })), 404, 'INSTALLATION_NOT_FOUND');
+    });
+
+    it('TOKEN_REVOKED when the stored token was cleared', async () => {
+      await revokeAccountToken(seeded.account.id);
+      await expectError(await deploy(deployRequest()), 401, 'TOKEN_REVOKED');
+    });
+
+    it('TOKEN_REVOKED when Vercel reports an invalid token', async () => {
+      mock.fail({
+        method: 'GET',
+        path: /^\/v1\/integrations\/configuration\//,
+        status: 403,
+        body: { error: { code: 'forbidden', message: 'Not authorized', invalidToken: true } },
+      });
+      await expectError(await deploy(deployRequest()), 401, 'TOKEN_REVOKED');
+    });
+
+    it('MISSING_SCOPE when Vercel forbids writing env vars', async () => {
+      mock.fail({
+        method: 'GET',
+        path: /\/env$/,
+        status: 403,
+        body: { error: { code: 'forbidden', message: 'Missing read-write scope for project env' } },
+      });
+      await expectError(await deploy(deployRequest()), 403, 'MISSING_SCOPE');
+    });
+
+    it('PROJECT_NOT_FOUND for a project outside the configuration', async () => {
+      mock.addProject({ id: 'prj_elsewhere', name: 'elsewhere' });
+      await expectError(await deploy(deployRequest({ projectId: 'prj_elsewhere' })), 404, 'PROJECT_NOT_FOUND');
+    });
+
+    it('PROJECT_NOT_FOUND when the project was deleted on Vercel', async () => {
+      mock.fail({ method: 'GET', path: /\/env$/, status: 404, body: { error: { code: 'not_found', message: 'Project not found' } } });
+      await expectError(await deploy(deployRequest()), 404, 'PROJECT_NOT_FOUND');
+    });
+
+    it('ENV_CONFLICT when Vercel rejects an env var', async () => {
+      mock.fail({
+        method: 'POST',
+        path: /\/env$/,
+        status: 400,
+        body: { error: { code: 'ENV_CONFLICT', message: 'A variable with the name OPENAI_API_KEY already exists' } },
+      });
+      await expectError(await deploy(deployRequest()), 409, 'ENV_CONFLICT');
+    });
+
+    it('GIT_REPO_INACCESSIBLE when the repository lookup fails, and marks the installation failed', async () => {
+      mock.fail({ method: 'GET', path: /^\/repos\//, status: 404, body: { message: 'Not Found' } });
+      await expectError(await deploy(deployRequest()), 422, 'GIT_REPO_INACCESSIBLE');
+      assert.equal((await getInstallationById(seeded.configurationId))?.status, 'failed');
+    });
+
+    it('GIT_REPO_INACCESSIBLE when Vercel cannot use the git source', async () => {
+      mock.fail({
+        method: 'POST',
+        path: /^\/v13\/deployments$/,
+        status: 400,
+        body: { error: { code: 'incorrect_git_source_info', message: 'The provided repository could not be found' } },
+      });
+      await expectError(await deploy(deployRequest()), 422, 'GIT_REPO_INACCESSIBLE');
+    });
+
+    it('RATE_LIMITED when the reset is too far away to wait for', async () => {
+      mock.fail({
+        method: 'GET',
+        path: /^\/v1\/integrations\/configuration\//,
+        status: 429,
+        body: { error: { code: 'rate_limited', message: 'Rate limit exceeded' } },
+        headers: { 'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 3600) },
+      });
+      await expectError(await deploy(deployRequest()), 429, 'RATE_LIMITED');
+    });
+
+    it('VERCEL_UNAVAILABLE when creating the deployment returns a 5xx', async () => {
+      // POSTs are not retried, so this fails on the first attempt
+      mock.fail({ method: 'POST', path: /^\/v13\/deployments$/, status: 503, body: {} });
+      await expectError(await deploy(deployRequest()), 502, 'VERCEL_UNAVAILABLE');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { setStorageAdapter, MemoryStorageAdapter } from '@/lib/adapters';
+import { createAccount, createInstallation } from '@/lib/storage';
+import { SESSION_COOKIE, signPayload } from '@/lib/session';
+import { Account, DeploymentConfig, Installation, Session } from '@/types';
+import { MockVercelServer } from './mocks/vercel-server';
+
+export const APP_URL = 'http://localhost:3000';
+export const ASSISTANT_REPO = 'vezlo/assistant-server';
+export const ASSISTANT_REPO_ID = 1066522680;
+
+// Environment shared by every test file; call before any request is handled
+export function configureTestEnv(mock: MockVercelServer) {
+  Object.assign(process.env, {
+    LOG_LEVEL: 'silent',
+    STORAGE_ADAPTER: 'memory',
+    ENCRYPTION_KEYS: `test:${crypto.randomBytes(32).toString('hex')}`,
+    SESSION_SECRET: crypto.randomBytes(32).toString('hex'),
+    VERCEL_API_URL: mock.url,
+    GITHUB_API_URL: mock.url,
+    GITLAB_API_URL: mock.url,
+    BITBUCKET_API_URL: mock.url,
+    VERCEL_CLIENT_ID: mock.clientId,
+    VERCEL_CLIENT_SECRET: mock.clientSecret,
+    VERCEL_REDIRECT_URI: `${APP_URL}/api/oauth/callback`,
+    NEXT_PUBLIC_APP_URL: APP_URL,
+    ASSISTANT_SERVER_REPO: ASSISTANT_REPO,
+  });
+  // Force the repo lookup through the mock
+  delete process.env.ASSISTANT_SERVER_REPO_ID;
+  delete process.env.ASSISTANT_SERVER_REPO_PROVIDER;
+}
+
+// Fresh storage and mock state for each test
+export function resetState(mock: MockVercelServer) {
+  setStorageAdapter(new MemoryStorageAdapter());
+  mock.reset();
+  mock.addRepo(ASSISTANT_REPO, ASSISTANT_REPO_ID);
+}
+
+export function buildRequest(
+  path: string,
+  options: { method?: string; body?: unknown; cookies?: Record<string, string> } = {}
+): NextRequest {
+  const headers = new Headers();
+  if (options.body !== undefined) headers.set('Content-Type', 'application/json');
+  if (options.cookies) {
+    headers.set('Cookie', Object.entries(options.cookies).map(([name, value]) => `${name}=${value}`).join('; '));
+  }
+
+  return new NextRequest(new URL(path, APP_URL), {
+    method: options.method || 'GET',
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+}
+
+export function sessionCookieFor(account: Account, installation: Installation): Record<string, string> {
+  const session: Session = {
+    accountUuid: account.uuid,
+    installationUuid: installation.uuid,
+    userId: account.vercel_user_id,
+    exp: Math.floor(Date.now() / 1000) + 3600,
+  };
+  return { [SESSION_COOKIE]: signPayload(session) };
+}
+
+// An authorized installation whose configuration can see one project
+export async function seedInstallation(mock: MockVercelServer, options: { configurationId?: string; userId?: string; teamId?: string } = {}) {
+  const configurationId = options.configurationId || 'icfg_test';
+  const accessToken = `token_${configurationId}`;
+  const projectId = `prj_${configurationId}`;
+
+  mock.addToken(accessToken);
+  mock.addProject({ id: projectId, name: 'assistant-server' });
+  mock.addConfiguration({ id: configurationId, projectSelection: 'selected', projects: [projectId] });
+
+  const account = await createAccount({
+    access_token: accessToken,
+    token_type: 'Bearer',
+    installation_id: configurationId,
+    user_id: options.userId || 'user_test',
+    team_id: options.teamId,
+  });
+  const installation = await createInstallation(configurationId, account.id);
+
+  return { account, installation, configurationId, projectId, cookies: sessionCookieFor(account, installation) };
+}
+
+export const validConfig: DeploymentConfig = {
+  supabase: { url: 'https://abcdefgh.supabase.co', serviceRoleKey: 'sb_secret_test' },
+  database: { host: 'db.abcdefgh.supabase.co', name: 'postgres', user: 'postgres', password: 'db-password' },
+  openai: { apiKey: 'sk-test-key' },
+  admin: { email: 'admin@example.com' },
+};
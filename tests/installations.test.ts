@@ -0,0 +1,143 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GET as listInstallations } from '@/app/api/installations/route';
+import { GET as getInstallation, DELETE as uninstall } from '@/app/api/installations/[uuid]/route';
+import { createDeployment, getInstallationByUuid, updateInstallation } from '@/lib/storage';
+import { VercelAPIClient } from '@/lib/vercel-api';
+import { startMockVercelServer, MockVercelServer } from './mocks/vercel-server';
+import { buildRequest, configureTestEnv, resetState, seedInstallation } from './helpers';
+
+describe('installations API', () => {
+  let mock: MockVercelServer;
+  let seeded: Awaited<ReturnType<typeof seedInstallation>>;
+
+  before(async () => {
+    mock = await startMockVercelServer();
+    configureTestEnv(mock);
+  });
+
+  after(() => mock.close());
+
+  beforeEach(async () => {
+    resetState(mock);
+    seeded = await seedInstallation(mock);
+  });
+
+  const get = (uuid: string, cookies?: Record<string, string>) =>
+    getInstallation(buildRequest(`/api/installations/${uuid}`, { cookies }), { params: Promise.resolve({ uuid }) });
+
+  describe('GET /api/installations', () => {
+    it("lists the session account's installations with their setup endpoints", async () => {
+      await seedInstallation(mock, { configurationId: 'icfg_other', userId: 'user_other' });
+      await updateInstallation(seeded.installation.uuid, { deployment_url: 'assistant-server.vercel.app' });
+
+      const response = await listInstallations(buildRequest('/api/installations', { cookies: seeded.cookies }));
+      const { data } = await response.json();
+
+      assert.equal(response.status, 200);
+      assert.deepEqual(data.installations.map((i: any) => i.uuid), [seeded.installation.uuid]);
+      assert.deepEqual(
+        data.installations[0].bootstrap.map((step: any) => step.endpoint),
+        ['migrate', 'seed-default', 'generate-key'].map(step => `https://assistant-server.vercel.app/api/${step}`)
+      );
+      assert.equal('bootstrap_steps' in data.installations[0], false);
+    });
+
+    it("includes the user's installations in their teams", async () => {
+      const team = await seedInstallation(mock, { configurationId: 'icfg_team', teamId: 'team_test' });
+
+      const response = await listInstallations(buildRequest('/api/installations', { cookies: seeded.cookies }));
+      const { data } = await response.json();
+
+      assert.equal(response.status, 200);
+      assert.deepEqual(data.installations.map((i: any) => i.uuid), [seeded.installation.uuid, team.installation.uuid]);
+      assert.equal((await get(team.installation.uuid, seeded.cookies)).status, 200);
+    });
+
+    it('requires a session', async () => {
+      const response = await listInstallations(buildRequest('/api/installations'));
+      assert.equal(response.status, 401);
+    });
+  });
+
+  describe('GET /api/installations/{uuid}', () => {
+    it('returns the installation with its latest deployment and without secrets', async () => {
+      await updateInstallation(seeded.installation.uuid, {
+        status: 'installed',
+        vercel_project_name: 'assistant-server',
+        deployment_url: 'https://assistant-server.vercel.app',
+        migration_secret_key: 'encrypted-secret',
+      });
+      for (const id of ['dpl_old', 'dpl_new']) {
+        await createDeployment({
+          installation_id: seeded.installation.id,
+          vercel_deployment_id: id,
+          git_ref: 'main',
+          target: 'production',
+          env_var_keys: [],
+          state: 'READY',
+        });
+      }
+
+      const response = await get(seeded.installation.uuid, seeded.cookies);
+      const { data } = await response.json();
+
+      assert.equal(response.status, 200);
+      assert.equal(data.status, 'installed');
+      assert.equal(data.deployment_url, 'https://assistant-server.vercel.app');
+      assert.equal(data.latest_deployment.vercel_deployment_id, 'dpl_new');
+      assert.equal('migration_secret_key' in data, false);
+      assert.equal('account_id' in data, false);
+    });
+
+    it('requires a session', async () => {
+      const response = await get(seeded.installation.uuid);
+      assert.equal(response.status, 401);
+    });
+
+    it("rejects another account's session", async () => {
+      const other = await seedInstallation(mock, { configurationId: 'icfg_other', userId: 'user_other' });
+      const response = await get(seeded.installation.uuid, other.cookies);
+      assert.equal(response.status, 403);
+    });
+  });
+
+  describe('DELETE /api/installations/{uuid}', () => {
+    const remove = (removeEnvVars: boolean) =>
+      uninstall(
+        buildRequest(`/api/installations/${seeded.installation.uuid}?removeEnvVars=${removeEnvVars}`, {
+          method: 'DELETE',
+          cookies: seeded.cookies,
+        }),
+        { params: Promise.resolve({ uuid: seeded.installation.uuid }) }
+      );
+
+    it('removes the env vars the integration wrote and marks the installation uninstalled', async () => {
+      await updateInstallation(seeded.installation.uuid, { vercel_project_id: seeded.projectId, status: 'installed' });
+      await new VercelAPIClient(`token_${seeded.configurationId}`).setEnvironmentVariables(seeded.projectId, {
+        OPENAI_API_KEY: 'sk-test',
+        MY_OWN_VAR: 'kept',
+      });
+
+      const response = await remove(true);
+      const { data } = await response.json();
+
+      assert.equal(response.status, 200);
+      assert.deepEqual(data.envVarsRemoved, ['OPENAI_API_KEY']);
+      assert.deepEqual(mock.getEnv(seeded.projectId).map(env => env.key), ['MY_OWN_VAR']);
+      assert.equal((await getInstallationByUuid(seeded.installation.uuid))?.status, 'uninstalled');
+    });
+
+    it('succeeds again without removing anything when the installation is already uninstalled', async () => {
+      await updateInstallation(seeded.installation.uuid, { vercel_project_id: seeded.projectId, status: 'installed' });
+      assert.equal((await remove(true)).status, 200);
+
+      const response = await remove(true);
+      const { data } = await response.json();
+
+      assert.equal(response.status, 200);
+      assert.equal(data.alreadyUninstalled, true);
+      assert.deepEqual(data.envVarsRemoved, []);
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GitProvider, VercelEnvVar, VercelOAuthToken } from '@/types';
+
+// In-process stand-in for the Vercel endpoints VercelAPIClient calls, plus the GitHub, GitLab and
+// Bitbucket repo lookups. Point the client at it with VERCEL_API_URL / GITHUB_API_URL / GITLAB_API_URL /
+// BITBUCKET_API_URL.
+
+interface MockProject {
+  id: string;
+  name: string;
+  framework: string | null;
+}
+
+interface MockConfiguration {
+  id: string;
+  projectSelection: 'all' | 'selected';
+  projects: string[];
+}
+
+interface MockFailure {
+  method: string;
+  path: RegExp;
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  body: any;
+}
+
+export interface MockVercelServer {
+  url: string;
+  clientId: string;
+  clientSecret: string;
+  // Seed data
+  addConfiguration(configuration: Partial<MockConfiguration> & { id: string }): void;
+  addProject(project: Partial<MockProject> & { id: string; name: string }): void;
+  addRepo(repoPath: string, repoId: number | string, provider?: GitProvider): void; // Bitbucket ids are UUIDs
+  issueCode(code: string, token: VercelOAuthToken): void;
+  addToken(accessToken: string): void; // Accept a token without going through OAuth
+  // Inspect state
+  getEnv(projectId: string): VercelEnvVar[];
+  requests: MockRequest[];
+  // Make matching requests fail until reset()
+  fail(failure: MockFailure): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+const json = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const vercelError = (res: http.ServerResponse, status: number, code: string, message: string) =>
+  json(res, status, { error: { code, message } });
+
+const repoKey = (provider: string, repoPath: string) => `${provider}:${repoPath}`;
+
+// The id field Vercel reads from gitSource for each provider
+const gitSourceRepoId = (gitSource: any): string | undefined => {
+  const id = { github: gitSource?.repoId, gitlab: gitSource?.projectId, bitbucket: gitSource?.repoUuid }[
+    gitSource?.type as GitProvider
+  ];
+  return id === undefined ? undefined : String(id);
+};
+
+export async function startMockVercelServer(): Promise<MockVercelServer> {
+  const clientId = 'oac_mock_client';
+  const clientSecret = 'mock_client_secret';
+
+  let codes = new Map<string, VercelOAuthToken>();
+  let tokens = new Set<string>();
+  let configurations = new Map<string, MockConfiguration>();
+  let projects = new Map<string, MockProject>();
+  let envs = new Map<string, VercelEnvVar[]>();
+  let deployments = new Map<string, Record<string, unknown>>();
+  let repos = new Map<string, number | string>(); // Keyed by repoKey()
+  let failures: MockFailure[] = [];
+  const requests: MockRequest[] = [];
+  let nextId = 1;
+
+  const newId = (prefix: string) => `${prefix}_${nextId++}`;
+
+  const handle = (req: http.IncomingMessage, res: http.ServerResponse, rawBody: string) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    const path = url.pathname;
+
+    let body: any = {};
+    if (rawBody) {
+      body = req.headers['content-type']?.includes('application/x-www-form-urlencoded')
+        ? Object.fromEntries(new URLSearchParams(rawBody))
+        : JSON.parse(rawBody);
+    }
+    requests.push({ method, path, body });
+
+    const failure = failures.find(f => f.method === method && f.path.test(path));
+    if (failure) {
+      return json(res, failure.status, failure.body ?? {}, failure.headers);
+    }
+
+    // Repo lookups (unauthenticated)
+    const repoMatch = path.match(/^\/repos\/([^/]+\/[^/]+)$/);
+    if (method === 'GET' && repoMatch) {
+      const repoId = repos.get(repoKey('github', repoMatch[1]));
+      return repoId ? json(res, 200, { id: repoId, full_name: repoMatch[1] }) : json(res, 404, { message: 'Not Found' });
+    }
+
+    const gitlabMatch = path.match(/^\/projects\/([^/]+)$/);
+    if (method === 'GET' && gitlabMatch) {
+      const projectPath = decodeURIComponent(gitlabMatch[1]);
+      const projectId = repos.get(repoKey('gitlab', projectPath));
+      return projectId
+        ? json(res, 200, { id: projectId, path_with_namespace: projectPath })
+        : json(res, 404, { message: '404 Project Not Found' });
+    }
+
+    const bitbucketMatch = path.match(/^\/repositories\/([^/]+)\/([^/]+)$/);
+    if (method === 'GET' && bitbucketMatch) {
+      const [, workspace, slug] = bitbucketMatch;
+      const repoUuid = repos.get(repoKey('bitbucket', `${workspace}/${slug}`));
+      return repoUuid
+        ? json(res, 200, { uuid: repoUuid, full_name: `${workspace}/${slug}`, workspace: { uuid: `{workspace-${workspace}}` } })
+        : json(res, 404, { type: 'error', error: { message: 'Repository not found' } });
+    }
+
+    if (method === 'POST' && path === '/v2/oauth/access_token') {
+      const token = codes.get(body.code);
+      if (body.client_id !== clientId || body.client_secret !== clientSecret || !token) {
+        return json(res, 400, { error: 'invalid_grant', error_description: 'Invalid code or client credentials' });
+      }
+      codes.delete(body.code); // Codes are single use
+      tokens.add(token.access_token);
+      return json(res, 200, token);
+    }
+
+    // Everything below requires a valid bearer token
+    const bearer = req.headers.authorization?.replace(/^Bearer /, '');
+    if (!bearer || !tokens.has(bearer)) {
+      return json(res, 403, { error: { code: 'forbidden', message: 'Not authorized', invalidToken: true } });
+    }
+
+    let match: RegExpMatchArray | null;
+
+    if ((match = path.match(/^\/v1\/integrations\/configuration\/([^/]+)$/))) {
+      const configuration = configurations.get(match[1]);
+      if (!configuration) return vercelError(res, 404, 'not_found', 'Configuration not found');
+      if (method === 'DELETE') {
+        configurations.delete(match[1]);
+        res.writeHead(204);
+        return res.end();
+      }
+      return json(res, 200, { ...configuration, scopes: [], integrationId: 'oac_mock', ownerId: 'owner', userId: 'user' });
+    }
+
+    if (method === 'GET' && path === '/v9/projects') {
+      // Vercel's `until` cursor is a timestamp; here it is the offset of the next page
+      const limit = Number(url.searchParams.get('limit')) || 20;
+      const start = Number(url.searchParams.get('until')) || 0;
+      const all = [...projects.values()];
+      const next = start + limit < all.length ? start + limit : null;
+      return json(res, 200, {
+        projects: all.slice(start, start + limit),
+        pagination: { count: Math.min(limit, all.length - start), next, prev: start || null },
+      });
+    }
+
+    if (method === 'POST' && path === '/v10/projects/import') {
+      const repoPath = body.gitRepository?.repo;
+      if (!repos.has(repoKey(body.gitRepository?.type, repoPath))) {
+        return vercelError(res, 400, 'repo_not_found', `Repository ${repoPath} is not accessible`);
+      }
+      const project = { id: newId('prj'), name: body.name, framework: null };
+      projects.set(project.id, project);
+      return json(res, 200, project);
+    }
+
+    if ((match = path.match(/^\/v9\/projects\/([^/]+)$/)) && method === 'GET') {
+      const project = projects.get(match[1]) || [...projects.values()].find(p => p.name === match![1]);
+      return project ? json(res, 200, project) : vercelError(res, 404, 'not_found', 'Project not found');
+    }
+
+    if ((match = path.match(/^\/v(?:9|10)\/projects\/([^/]+)\/env(?:\/([^/]+))?$/))) {
+      const [, projectId, envId] = match;
+      if (!projects.has(projectId)) return vercelError(res, 404, 'not_found', 'Project not found');
+      const projectEnvs = envs.get(projectId) || [];
+      envs.set(projectId, projectEnvs);
+
+      if (method === 'GET' && !envId) {
+        return json(res, 200, { envs: projectEnvs });
+      }
+      if (method === 'POST' && !envId) {
+        if (projectEnvs.some(env => env.key === body.key)) {
+          return vercelError(res, 400, 'ENV_CONFLICT', `A variable with the name ${body.key} already exists`);
+        }
+        const env: VercelEnvVar = { id: newId('env'), key: body.key, value: body.value, type: body.type, target: body.target };
+        projectEnvs.push(env);
+        return json(res, 201, { created: env });
+      }
+
+      const env = projectEnvs.find(e => e.id === envId);
+      if (!env) return vercelError(res, 404, 'not_found', 'Environment variable not found');
+      if (method === 'PATCH') {
+        Object.assign(env, body);
+        return json(res, 200, env);
+      }
+      if (method === 'DELETE') {
+        envs.set(projectId, projectEnvs.filter(e => e.id !== envId));
+        return json(res, 200, env);
+      }
+    }
+
+    if (method === 'POST' && path === '/v13/deployments') {
+      const project = projects.get(body.project);
+      if (!project) return vercelError(res, 404, 'not_found', 'Project not found');
+      const repoId = gitSourceRepoId(body.gitSource);
+      const providerRepoIds = [...repos.entries()]
+        .filter(([key]) => key.startsWith(`${body.gitSource?.type}:`))
+        .map(([, id]) => String(id));
+      if (!repoId || !providerRepoIds.includes(repoId)) {
+        return vercelError(res, 400, 'incorrect_git_source_info', 'The provided repository could not be found');
+      }
+      const id = newId('dpl');
+      const deployment = {
+        id,
+        url: `${project.name}-${id}.vercel.app`,
+        name: project.name,
+        projectId: project.id,
+        readyState: 'QUEUED',
+        createdAt: Date.now(),
+      };
+      deployments.set(id, deployment);
+      return json(res, 200, deployment);
+    }
+
+    if ((match = path.match(/^\/v13\/deployments\/([^/]+)$/)) && method === 'GET') {
+      const deployment = deployments.get(match[1]);
+      return deployment ? json(res, 200, deployment) : vercelError(res, 404, 'not_found', 'Deployment not found');
+    }
+
+    return vercelError(res, 404, 'not_found', `No mock for ${method} ${path}`);
+  };
+
+  const server = http.createServer((req, res) => {
+    let rawBody = '';
+    req.on('data', chunk => (rawBody += chunk));
+    req.on('end', () => {
+      try {
+        handle(req, res, rawBody);
+      } catch (error) {
+        json(res, 500, { error: { code: 'mock_error', message: String(error) } });
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    clientId,
+    clientSecret,
+    requests,
+    addConfiguration: (configuration) =>
+      configurations.set(configuration.id, { projectSelection: 'all', projects: [], ...configuration }),
+    addProject: (project) => projects.set(project.id, { framework: null, ...project }),
+    addRepo: (repoPath, repoId, provider = 'github') => repos.set(repoKey(provider, repoPath), repoId),
+    issueCode: (code, token) => codes.set(code, token),
+    addToken: (accessToken) => tokens.add(accessToken),
+    getEnv: (projectId) => envs.get(projectId) || [],
+    fail: (failure) => failures.push(failure),
+    reset: () => {
+      codes = new Map();
+      tokens = new Set();
+      configurations = new Map();
+      projects = new Map();
+      envs = new Map();
+      deployments = new Map();
+      repos = new Map();
+      failures = [];
+      requests.length = 0;
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,236 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GET as install } from '@/app/api/oauth/install/route';
+import { GET as callback } from '@/app/api/oauth/callback/route';
+import { GET as login } from '@/app/api/session/login/route';
+import { OAUTH_STATE_COOKIE } from '@/lib/oauth-state';
+import { SESSION_COOKIE, verifyPayload } from '@/lib/session';
+import { getAccountById, getAccountByScope, getDecryptedToken, getInstallationById, listInstallations, updateInstallation } from '@/lib/storage';
+import { Session } from '@/types';
+import { startMockVercelServer, MockVercelServer } from './mocks/vercel-server';
+import { APP_URL, buildRequest, configureTestEnv, resetState } from './helpers';
+
+describe('OAuth install and callback', () => {
+  let mock: MockVercelServer;
+
+  before(async () => {
+    mock = await startMockVercelServer();
+    configureTestEnv(mock);
+  });
+
+  after(() => mock.close());
+
+  beforeEach(() => resetState(mock));
+
+  // Runs /api/oauth/install and returns the state it issued with its cookie
+  const startInstall = async () => {
+    const response = await install();
+    const state = new URL(response.headers.get('location')!).searchParams.get('state')!;
+    const cookie = response.cookies.get(OAUTH_STATE_COOKIE)!.value;
+    return { state, cookies: { [OAUTH_STATE_COOKIE]: cookie } };
+  };
+
+  it('redirects to the Vercel install page with a state bound to a cookie', async () => {
+    const response = await install();
+
+    assert.equal(response.status, 307);
+    const location = new URL(response.headers.get('location')!);
+    assert.equal(location.host, 'vercel.com');
+    assert.ok(location.searchParams.get('state'));
+    assert.ok(response.cookies.get(OAUTH_STATE_COOKIE)?.value);
+  });
+
+  it('exchanges the code, stores the account and installation and sets a session', async () => {
+    mock.issueCode('code_1', {
+      access_token: 'vercel_token_1',
+      token_type: 'Bearer',
+      installation_id: 'icfg_1',
+      user_id: 'user_1',
+    });
+    const { state, cookies } = await startInstall();
+
+    const response = await callback(buildRequest(`/api/oauth/callback?code=code_1&state=${state}&next=https://vercel.com/done`, { cookies }));
+
+    assert.equal(response.status, 307);
+    const location = new URL(response.headers.get('location')!);
+    assert.equal(location.pathname, '/configure');
+    assert.equal(location.searchParams.get('configurationId'), 'icfg_1');
+    assert.equal(location.searchParams.get('next'), 'https://vercel.com/done');
+
+    const account = await getAccountByScope('user_1');
+    const installation = await getInstallationById('icfg_1');
+    assert.ok(account && installation);
+    assert.notEqual(account.access_token, 'vercel_token_1'); // Stored encrypted
+    assert.equal(await getDecryptedToken(account.id), 'vercel_token_1');
+    assert.equal(installation.status, 'pending');
+
+    const session = verifyPayload<Session>(response.cookies.get(SESSION_COOKIE)!.value);
+    assert.equal(session?.installationUuid, installation.uuid);
+    assert.equal(response.cookies.get(OAUTH_STATE_COOKIE)?.value, ''); // State is single use
+  });
+
+  it('keeps a separate account and token per scope for the same user', async () => {
+    mock.issueCode('code_personal', {
+      access_token: 'personal_token',
+      token_type: 'Bearer',
+      installation_id: 'icfg_personal',
+      user_id: 'user_1',
+    });
+    mock.issueCode('code_team', {
+      access_token: 'team_token',
+      token_type: 'Bearer',
+      installation_id: 'icfg_team',
+      user_id: 'user_1',
+      team_id: 'team_1',
+    });
+
+    for (const code of ['code_personal', 'code_team']) {
+      const { state, cookies } = await startInstall();
+      const response = await callback(buildRequest(`/api/oauth/callback?code=${code}&state=${state}`, { cookies }));
+      assert.equal(response.status, 307);
+    }
+
+    const personal = await getAccountByScope('user_1');
+    const team = await getAccountByScope('user_1', 'team_1');
+    assert.ok(personal && team);
+    assert.notEqual(personal.id, team.id);
+    assert.equal(await getDecryptedToken(personal.id), 'personal_token');
+    assert.equal(await getDecryptedToken(team.id), 'team_token');
+
+    // The personal installation still deploys to the personal scope with its own token
+    const installation = await getInstallationById('icfg_personal');
+    const account = await getAccountById(installation!.account_id);
+    assert.equal(account?.vercel_team_id ?? null, null);
+  });
+
+  describe('repeated install of the same configuration', () => {
+    // Completes the OAuth flow for icfg_1 with a fresh code and token
+    const installAgain = async (accessToken: string) => {
+      const code = `code_${accessToken}`;
+      mock.issueCode(code, { access_token: accessToken, token_type: 'Bearer', installation_id: 'icfg_1', user_id: 'user_1' });
+      const { state, cookies } = await startInstall();
+      return callback(buildRequest(`/api/oauth/callback?code=${code}&state=${state}&next=https://vercel.com/done`, { cookies }));
+    };
+
+    it('refreshes the token and returns a pending installation to the configure page', async () => {
+      await installAgain('first_token');
+      const response = await installAgain('second_token');
+
+      assert.equal(response.status, 307);
+      const location = new URL(response.headers.get('location')!);
+      assert.equal(location.pathname, '/configure');
+      assert.equal(location.searchParams.get('configurationId'), 'icfg_1');
+
+      const installations = await listInstallations();
+      assert.equal(installations.length, 1);
+      assert.equal(await getDecryptedToken(installations[0].account_id), 'second_token');
+
+      const session = verifyPayload<Session>(response.cookies.get(SESSION_COOKIE)!.value);
+      assert.equal(session?.installationUuid, installations[0].uuid);
+    });
+
+    it('sends an installed installation to its management page', async () => {
+      await installAgain('first_token');
+      const installation = (await getInstallationById('icfg_1'))!;
+      await updateInstallation(installation.uuid, { status: 'installed' });
+
+      const response = await installAgain('second_token');
+
+      assert.equal(response.status, 307);
+      const location = new URL(response.headers.get('location')!);
+      assert.equal(location.pathname, `/installations/${installation.uuid}`);
+      assert.equal(location.searchParams.get('next'), 'https://vercel.com/done');
+      assert.equal((await getInstallationById('icfg_1'))?.status, 'installed');
+      assert.equal(await getDecryptedToken(installation.account_id), 'second_token');
+    });
+
+    it('reopens an uninstalled installation for configuration', async () => {
+      await installAgain('first_token');
+      const installation = (await getInstallationById('icfg_1'))!;
+      await updateInstallation(installation.uuid, { status: 'uninstalled' });
+
+      const response = await installAgain('second_token');
+
+      assert.equal(new URL(response.headers.get('location')!).pathname, '/configure');
+      assert.equal((await getInstallationById('icfg_1'))?.status, 'pending');
+    });
+  });
+
+  describe('signing in again', () => {
+    const signIn = async (returnTo: string) => {
+      const response = await login(buildRequest(`/api/session/login?returnTo=${encodeURIComponent(returnTo)}`));
+      const state = new URL(response.headers.get('location')!).searchParams.get('state')!;
+      const cookies = { [OAUTH_STATE_COOKIE]: response.cookies.get(OAUTH_STATE_COOKIE)!.value };
+      mock.issueCode('code_1', { access_token: 'vercel_token_1', token_type: 'Bearer', installation_id: 'icfg_1', user_id: 'user_1' });
+      return callback(buildRequest(`/api/oauth/callback?code=code_1&state=${state}`, { cookies }));
+    };
+
+    it('returns to the page the user came from with a new session', async () => {
+      const response = await signIn('/installations?tab=all');
+
+      assert.equal(response.status, 307);
+      const location = new URL(response.headers.get('location')!);
+      assert.equal(location.pathname + location.search, '/installations?tab=all');
+      assert.ok(verifyPayload<Session>(response.cookies.get(SESSION_COOKIE)!.value));
+    });
+
+    it('ignores a return target on another origin', async () => {
+      const response = await signIn('//evil.example.com/phish');
+
+      const location = new URL(response.headers.get('location')!);
+      assert.equal(location.origin, APP_URL);
+      assert.equal(location.pathname, '/configure');
+    });
+  });
+
+  describe('install started by Vercel', () => {
+    beforeEach(() => {
+      mock.issueCode('code_1', { access_token: 'vercel_token_1', token_type: 'Bearer', installation_id: 'icfg_1', user_id: 'user_1' });
+    });
+
+    it('completes without a state when the code belongs to the configuration', async () => {
+      const response = await callback(buildRequest('/api/oauth/callback?code=code_1&configurationId=icfg_1&next=https://vercel.com/done'));
+
+      assert.equal(response.status, 307);
+      const location = new URL(response.headers.get('location')!);
+      assert.equal(location.pathname, '/configure');
+      assert.equal(location.searchParams.get('configurationId'), 'icfg_1');
+
+      const installation = await getInstallationById('icfg_1');
+      const session = verifyPayload<Session>(response.cookies.get(SESSION_COOKIE)!.value);
+      assert.equal(session?.installationUuid, installation?.uuid);
+    });
+
+    it('rejects a code issued for another configuration', async () => {
+      const response = await callback(buildRequest('/api/oauth/callback?code=code_1&configurationId=icfg_other'));
+
+      assert.equal(response.status, 400);
+      assert.equal(await getInstallationById('icfg_1'), null);
+    });
+  });
+
+  it('rejects a callback without a state or configurationId', async () => {
+    const response = await callback(buildRequest('/api/oauth/callback?code=code_1'));
+    assert.equal(response.status, 400);
+  });
+
+  it('rejects a state that was not issued to this browser', async () => {
+    const { cookies } = await startInstall();
+    const response = await callback(buildRequest('/api/oauth/callback?code=code_1&state=forged', { cookies }));
+    assert.equal(response.status, 403);
+  });
+
+  it('rejects a state without its cookie', async () => {
+    const { state } = await startInstall();
+    const response = await callback(buildRequest(`/api/oauth/callback?code=code_1&state=${state}`));
+    assert.equal(response.status, 400);
+  });
+
+  it('fails without storing anything when Vercel rejects the code', async () => {
+    const { state, cookies } = await startInstall();
+    const response = await callback(buildRequest(`/api/oauth/callback?code=unknown&state=${state}`, { cookies }));
+
+    assert.equal(response.status, 500);
+    assert.equal(await getInstallationById('icfg_1'), null);
+  });
+});
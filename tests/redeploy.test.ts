@@ -0,0 +1,77 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { POST as deploy } from '@/app/api/deploy/route';
+import { POST as redeploy } from '@/app/api/installations/[uuid]/redeploy/route';
+import { getInstallationByUuid, listDeployments, updateInstallation } from '@/lib/storage';
+import { startMockVercelServer, MockVercelServer } from './mocks/vercel-server';
+import { APP_URL, buildRequest, configureTestEnv, resetState, seedInstallation, validConfig } from './helpers';
+
+describe('POST /api/installations/{uuid}/redeploy', () => {
+  let mock: MockVercelServer;
+  let seeded: Awaited<ReturnType<typeof seedInstallation>>;
+
+  before(async () => {
+    mock = await startMockVercelServer();
+    configureTestEnv(mock);
+  });
+
+  after(() => mock.close());
+
+  beforeEach(async () => {
+    resetState(mock);
+    seeded = await seedInstallation(mock);
+    const response = await deploy(buildRequest('/api/deploy', {
+      method: 'POST',
+      cookies: seeded.cookies,
+      body: { configurationId: seeded.configurationId, config: validConfig, projectId: seeded.projectId },
+    }));
+    assert.equal(response.status, 200);
+  });
+
+  // Raw body, so malformed and empty bodies can be sent
+  const send = (rawBody?: string) =>
+    redeploy(
+      new NextRequest(new URL(`/api/installations/${seeded.installation.uuid}/redeploy`, APP_URL), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Cookie: Object.entries(seeded.cookies).map(([name, value]) => `${name}=${value}`).join('; '),
+        },
+        body: rawBody,
+      }),
+      { params: Promise.resolve({ uuid: seeded.installation.uuid }) }
+    );
+
+  const deploymentCount = async () => (await listDeployments(seeded.installation.id, { limit: 10, offset: 0 })).deployments.length;
+
+  it('redeploys with the current configuration when the body is empty', async () => {
+    const response = await send();
+    assert.equal(response.status, 200, JSON.stringify(await response.clone().json()));
+    assert.equal(await deploymentCount(), 2);
+  });
+
+  it('records a changed OPENAI_API_KEY as rotated and leaves the other timestamps alone', async () => {
+    const deployedAt = '2026-01-01T00:00:00.000Z';
+    await updateInstallation(seeded.installation.uuid, {
+      secrets_rotated_at: { OPENAI_API_KEY: deployedAt, SUPABASE_SERVICE_KEY: deployedAt, JWT_SECRET: deployedAt },
+    });
+
+    const response = await send(JSON.stringify({ config: { openai: { apiKey: 'sk-new-key' }, assistant: { model: 'gpt-4o' } } }));
+    assert.equal(response.status, 200, JSON.stringify(await response.clone().json()));
+
+    const rotations = (await getInstallationByUuid(seeded.installation.uuid))?.secrets_rotated_at;
+    assert.notEqual(rotations?.OPENAI_API_KEY, deployedAt);
+    assert.equal(rotations?.SUPABASE_SERVICE_KEY, deployedAt);
+    assert.equal(rotations?.JWT_SECRET, deployedAt);
+  });
+
+  it('VALIDATION_FAILED for a malformed body without starting a deployment', async () => {
+    const response = await send('{"config": {');
+    const data = await response.json();
+
+    assert.equal(response.status, 400);
+    assert.equal(data.code, 'VALIDATION_FAILED');
+    assert.equal(await deploymentCount(), 1);
+  });
+});
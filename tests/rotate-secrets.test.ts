@@ -0,0 +1,97 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST as deploy } from '@/app/api/deploy/route';
+import { POST as rotateSecrets } from '@/app/api/installations/[uuid]/rotate-secrets/route';
+import { getInstallationById, listDeployments } from '@/lib/storage';
+import { decrypt } from '@/lib/encryption';
+import { startMockVercelServer, MockVercelServer } from './mocks/vercel-server';
+import { buildRequest, configureTestEnv, resetState, seedInstallation, validConfig } from './helpers';
+
+describe('POST /api/installations/{uuid}/rotate-secrets', () => {
+  let mock: MockVercelServer;
+  let seeded: Awaited<ReturnType<typeof seedInstallation>>;
+  let deployedEnv: Record<string, string | undefined>;
+
+  before(async () => {
+    mock = await startMockVercelServer();
+    configureTestEnv(mock);
+  });
+
+  after(() => mock.close());
+
+  beforeEach(async () => {
+    resetState(mock);
+    seeded = await seedInstallation(mock);
+    const response = await deploy(buildRequest('/api/deploy', {
+      method: 'POST',
+      cookies: seeded.cookies,
+      body: { configurationId: seeded.configurationId, config: validConfig, projectId: seeded.projectId },
+    }));
+    assert.equal(response.status, 200);
+    deployedEnv = envOf(seeded.projectId);
+  });
+
+  const envOf = (projectId: string) => Object.fromEntries(mock.getEnv(projectId).map(e => [e.key, e.value]));
+
+  const rotate = (body: unknown, cookies = seeded.cookies) =>
+    rotateSecrets(
+      buildRequest(`/api/installations/${seeded.installation.uuid}/rotate-secrets`, { method: 'POST', cookies, body }),
+      { params: Promise.resolve({ uuid: seeded.installation.uuid }) }
+    );
+
+  it('generates new secrets, updates only those env vars and redeploys', async () => {
+    const before = await getInstallationById(seeded.configurationId);
+    const response = await rotate({ generate: ['JWT_SECRET', 'MIGRATION_SECRET_KEY'] });
+    const data = await response.json();
+
+    assert.equal(response.status, 200, JSON.stringify(data));
+    assert.deepEqual(data.data.rotated, ['JWT_SECRET', 'MIGRATION_SECRET_KEY']);
+    assert.deepEqual(data.data.envVariables.changed.sort(), ['JWT_SECRET', 'MIGRATION_SECRET_KEY']);
+    assert.equal(JSON.stringify(data).includes(envOf(seeded.projectId).JWT_SECRET!), false); // Values never returned
+
+    const env = envOf(seeded.projectId);
+    assert.notEqual(env.JWT_SECRET, deployedEnv.JWT_SECRET);
+    assert.notEqual(env.MIGRATION_SECRET_KEY, deployedEnv.MIGRATION_SECRET_KEY);
+    assert.equal(env.OPENAI_API_KEY, deployedEnv.OPENAI_API_KEY);
+
+    const installation = await getInstallationById(seeded.configurationId);
+    assert.equal(decrypt(installation!.migration_secret_key!), env.MIGRATION_SECRET_KEY);
+    assert.equal(installation?.deployment_id, data.data.deploymentId);
+    assert.equal(installation?.secrets_rotated_at?.JWT_SECRET, data.data.rotatedAt);
+    assert.equal(installation?.secrets_rotated_at?.OPENAI_API_KEY, before?.secrets_rotated_at?.OPENAI_API_KEY);
+
+    const { deployments } = await listDeployments(seeded.installation.id, { limit: 10, offset: 0 });
+    assert.equal(deployments.length, 2);
+    assert.deepEqual(deployments[0].env_var_keys, ['JWT_SECRET', 'MIGRATION_SECRET_KEY']);
+  });
+
+  it('sets user-provided replacements', async () => {
+    const response = await rotate({ values: { OPENAI_API_KEY: 'sk-rotated-key' } });
+
+    assert.equal(response.status, 200);
+    assert.equal(envOf(seeded.projectId).OPENAI_API_KEY, 'sk-rotated-key');
+    assert.equal(envOf(seeded.projectId).JWT_SECRET, deployedEnv.JWT_SECRET);
+  });
+
+  it('VALIDATION_FAILED when there is nothing to rotate', async () => {
+    const response = await rotate({});
+    const data = await response.json();
+    assert.equal(response.status, 400);
+    assert.equal(data.code, 'VALIDATION_FAILED');
+  });
+
+  it('VALIDATION_FAILED for a secret that cannot be generated', async () => {
+    const response = await rotate({ generate: ['OPENAI_API_KEY'] });
+    assert.equal(response.status, 400);
+  });
+
+  it('VALIDATION_FAILED for a secret that is both generated and replaced', async () => {
+    const response = await rotate({ generate: ['JWT_SECRET'], values: { JWT_SECRET: 'mine' } });
+    assert.equal(response.status, 400);
+  });
+
+  it('401 without a session', async () => {
+    const response = await rotate({ generate: ['JWT_SECRET'] }, {});
+    assert.equal(response.status, 401);
+  });
+});
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { POST as webhook } from '@/app/api/webhooks/vercel/route';
+import { createDeployment, getInstallationByUuid, listDeployments, updateInstallation } from '@/lib/storage';
+import { startMockVercelServer, MockVercelServer } from './mocks/vercel-server';
+import { APP_URL, configureTestEnv, resetState, seedInstallation } from './helpers';
+
+describe('POST /api/webhooks/vercel', () => {
+  let mock: MockVercelServer;
+  let seeded: Awaited<ReturnType<typeof seedInstallation>>;
+
+  before(async () => {
+    mock = await startMockVercelServer();
+    configureTestEnv(mock);
+  });
+
+  after(() => mock.close());
+
+  beforeEach(async () => {
+    resetState(mock);
+    seeded = await seedInstallation(mock);
+    await updateInstallation(seeded.installation.uuid, {
+      vercel_project_id: seeded.projectId,
+      deployment_id: 'dpl_live',
+      status: 'installed',
+    });
+  });
+
+  // Signed the way Vercel signs webhooks: HMAC-SHA1 of the raw body with the client secret
+  const send = (body: unknown) => {
+    const rawBody = JSON.stringify(body);
+    const signature = crypto.createHmac('sha1', mock.clientSecret).update(rawBody, 'utf8').digest('hex');
+    return webhook(new NextRequest(new URL('/api/webhooks/vercel', APP_URL), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-vercel-signature': signature },
+      body: rawBody,
+    }));
+  };
+
+  const deploymentError = (deploymentId: string) => ({
+    id: 'evt_1',
+    type: 'deployment.error',
+    createdAt: Date.now(),
+    payload: { project: { id: seeded.projectId }, deployment: { id: deploymentId, url: 'failed.vercel.app', name: 'assistant-server' } },
+  });
+
+  it('rejects an event without a payload with 400', async () => {
+    const response = await send({ id: 'evt_1', type: 'deployment.error', createdAt: Date.now() });
+    assert.equal(response.status, 400);
+  });
+
+  it('records a failed deployment without failing an installation that is still live', async () => {
+    await createDeployment({
+      installation_id: seeded.installation.id,
+      vercel_deployment_id: 'dpl_other',
+      git_ref: 'refs/heads/main',
+      target: 'production',
+      env_var_keys: [],
+      state: 'QUEUED',
+    });
+
+    const response = await send(deploymentError('dpl_other'));
+    assert.equal(response.status, 200);
+
+    const installation = await getInstallationByUuid(seeded.installation.uuid);
+    assert.equal(installation?.status, 'installed');
+    const { deployments } = await listDeployments(seeded.installation.id, { limit: 10, offset: 0 });
+    assert.equal(deployments[0].state, 'ERROR');
+  });
+
+  it('fails the installation when its current deployment errors', async () => {
+    const response = await send(deploymentError('dpl_live'));
+    assert.equal(response.status, 200);
+
+    const installation = await getInstallationByUuid(seeded.installation.uuid);
+    assert.equal(installation?.status, 'failed');
+  });
+});
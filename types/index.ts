@@ -1,3 +1,11 @@
+// Signed session issued by the OAuth callback
+export interface Session {
+  accountUuid: string;
+  installationUuid: string;
+  userId: string; // Vercel user ID
+  exp: number; // Unix seconds
+}
+
 // OAuth and Token Types
 export interface VercelOAuthToken {
   access_token: string;
@@ -12,53 +20,230 @@ export interface Account {
   id: number;
   uuid: string;
   vercel_user_id: string;
-  vercel_team_id?: string;
+  vercel_team_id?: string | null;
   name?: string;
   email?: string;
-  access_token: string; // Encrypted
+  access_token: string | null; // Encrypted, cleared on uninstall
   created_at: string;
   updated_at: string;
 }
 
+export type InstallationStatus = 'pending' | 'installed' | 'failed' | 'uninstalled';
+
 export interface Installation {
   id: number;
   uuid: string;
   installation_id: string;
   account_id: number;
   app_name: string;
-  vercel_project_id?: string;
-  vercel_project_name?: string;
-  deployment_url?: string;
-  status: 'pending' | 'installed' | 'failed';
+  vercel_project_id?: string | null;
+  vercel_project_name?: string | null;
+  deployment_url?: string | null;
+  deployment_id?: string | null;
+  migration_secret_key?: string | null; // Encrypted
+  bootstrap_steps?: BootstrapSteps;
+  secrets_rotated_at?: SecretRotations;
+  status: InstallationStatus;
   created_at: string;
   updated_at: string;
 }
 
+export interface Deployment {
+  id: number;
+  uuid: string;
+  installation_id: number;
+  vercel_deployment_id: string;
+  git_ref?: string | null;
+  target?: string | null;
+  env_var_keys: string[]; // Key names only, never values
+  state: VercelDeploymentState;
+  error_message?: string | null;
+  ready_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+// Post-deploy bootstrap steps run against the deployed assistant server
+export type BootstrapStepName = 'migrate' | 'seed-default' | 'generate-key';
+
+export type BootstrapStepStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface BootstrapStepResult {
+  status: BootstrapStepStatus;
+  attempts: number;
+  httpStatus?: number;
+  error?: string;
+  output?: string; // Encrypted JSON response body
+  completedAt?: string;
+  updatedAt: string;
+}
+
+export type BootstrapSteps = Partial<Record<BootstrapStepName, BootstrapStepResult>>;
+
+export interface BootstrapChecklistItem {
+  step: BootstrapStepName;
+  label: string;
+  description: string;
+  status: BootstrapStepStatus;
+  attempts: number;
+  error?: string;
+  output?: unknown;
+  completedAt?: string;
+}
+
+// Installation as returned by the API: no internal ids, secrets or step outputs
+export type InstallationSummary = Omit<Installation, 'id' | 'account_id' | 'migration_secret_key' | 'bootstrap_steps'> & {
+  bootstrap: (Omit<BootstrapChecklistItem, 'output'> & {
+    endpoint: string | null; // Assistant server URL the step calls, without the key
+  })[];
+  latest_deployment: Omit<Deployment, 'id' | 'installation_id'> | null;
+};
+
 // Configuration Types (not stored, used only during deployment)
 export interface DeploymentConfig {
   supabase: {
     url: string;
-    anonKey: string;
-    serviceRoleKey?: string;
+    serviceRoleKey: string;
+  };
+  database: {
+    host: string;
+    name: string;
+    user: string;
+    password: string;
   };
   openai: {
     apiKey: string;
   };
+  assistant?: Partial<AssistantSettings>; // Missing values fall back to the defaults
+  admin: {
+    email: string; // The password is generated server-side and shown once
+  };
+}
+
+export interface AssistantSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  organizationName: string;
+  assistantName: string;
+}
+
+// Credential preflight results, keyed by config field path (e.g. 'supabase.url')
+export interface PreflightFieldResult {
+  ok: boolean;
+  message?: string;
+}
+
+export interface PreflightResult {
+  valid: boolean;
+  fields: Record<string, PreflightFieldResult>;
+}
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+// Redeploy of an existing installation with a partial config update
+export interface RedeployRequest {
+  config?: DeepPartial<DeploymentConfig>;
+  branch?: string;
+}
+
+// Assistant server env vars that can be changed after deploy without touching the rest
+export type RotatableSecret = 'JWT_SECRET' | 'MIGRATION_SECRET_KEY' | 'OPENAI_API_KEY' | 'SUPABASE_SERVICE_KEY';
+
+// ISO timestamp of the last change of each secret
+export type SecretRotations = Partial<Record<RotatableSecret, string>>;
+
+export interface RotateSecretsRequest {
+  generate?: RotatableSecret[]; // Only JWT_SECRET and MIGRATION_SECRET_KEY can be generated
+  values?: Partial<Record<RotatableSecret, string>>; // Replacement values
+  branch?: string;
 }
 
 // Vercel API Types
+export type VercelDeploymentState =
+  | 'QUEUED'
+  | 'INITIALIZING'
+  | 'BUILDING'
+  | 'READY'
+  | 'ERROR'
+  | 'CANCELED';
+
 export interface VercelDeployment {
   id: string;
   url: string;
   name: string;
-  state: string;
-  ready: boolean;
+  readyState: VercelDeploymentState;
+  projectId?: string;
+  createdAt?: number;
+  buildingAt?: number;
+  ready?: number; // Timestamp when the deployment became ready
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+export interface DeploymentStatus {
+  id: string;
+  state: VercelDeploymentState;
+  url: string;
+  createdAt?: number;
+  buildingAt?: number;
+  readyAt?: number;
+  buildDurationMs?: number;
+  errorCode?: string;
+  errorMessage?: string;
 }
 
 export interface VercelProject {
   id: string;
   name: string;
-  framework: string;
+  framework: string | null;
+}
+
+// Git host the assistant server repository lives on
+export type GitProvider = 'github' | 'gitlab' | 'bitbucket';
+
+export interface GitRepoSource {
+  provider: GitProvider;
+  repo: string; // Path on the host, e.g. "owner/repo"; GitLab paths may include subgroups
+}
+
+// `gitSource` of a Vercel deployment; each provider identifies the repository differently
+export type VercelGitSource =
+  | { type: 'github'; repoId: string; ref: string }
+  | { type: 'gitlab'; projectId: string; ref: string }
+  | { type: 'bitbucket'; repoUuid: string; workspaceUuid?: string; ref: string };
+
+export type EnvVarTarget = 'production' | 'preview' | 'development';
+
+export interface VercelEnvVar {
+  id: string;
+  key: string;
+  value?: string;
+  type: 'system' | 'secret' | 'encrypted' | 'plain' | 'sensitive';
+  target?: EnvVarTarget[];
+}
+
+// Desired value of a single env var; targets default to all environments
+export interface EnvVarInput {
+  value: string;
+  target?: EnvVarTarget[];
+  type?: 'encrypted' | 'plain' | 'sensitive';
+}
+
+export interface EnvUpsertResult {
+  added: string[];
+  changed: string[];
+  unchanged: string[];
+  removed: string[];
 }
 
 export interface VercelIntegrationConfiguration {
@@ -77,16 +262,76 @@ export interface VercelIntegrationConfiguration {
   installationType: 'marketplace' | 'external';
 }
 
+export interface UninstallResult {
+  alreadyUninstalled: boolean;
+  envVarsRemoved: string[];
+  tokenRevoked: boolean;
+}
+
+// Webhook Types
+export type VercelWebhookEventType =
+  | 'integration-configuration.removed'
+  | 'project.removed'
+  | 'deployment.succeeded'
+  | 'deployment.error';
+
+export interface VercelWebhookEvent {
+  id: string;
+  type: VercelWebhookEventType | string;
+  createdAt: number;
+  region?: string;
+  payload: {
+    team?: { id: string } | null;
+    user?: { id: string };
+    configuration?: { id: string };
+    project?: { id: string; name?: string };
+    deployment?: {
+      id: string;
+      url: string;
+      name: string;
+      meta?: Record<string, string>;
+    };
+    [key: string]: unknown;
+  };
+}
+
 // API Response Types
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: ErrorCode;
+  message?: string;
 }
 
+// Stable error codes returned by the deploy and redeploy APIs
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'INSTALLATION_NOT_FOUND'
+  | 'TOKEN_REVOKED'
+  | 'MISSING_SCOPE'
+  | 'PROJECT_NOT_FOUND'
+  | 'ENV_CONFLICT'
+  | 'GIT_REPO_INACCESSIBLE'
+  | 'RATE_LIMITED'
+  | 'VERCEL_UNAVAILABLE'
+  | 'DEPLOYMENT_FAILED';
+
 // Deployment Request
 export interface DeploymentRequest {
-  installationUuid: string;
+  configurationId: string;
   config: DeploymentConfig;
+  projectId?: string; // Existing project from the integration configuration
+  createProject?: boolean; // Create a new project instead
   projectName?: string;
 }
+
+// Data of a successful /api/deploy response
+export interface DeploymentResult {
+  deploymentId: string;
+  deploymentUrl: string;
+  projectName: string;
+  envVariables: EnvUpsertResult;
+  adminEmail: string;
+  adminPassword: string; // Generated admin password, returned only once
+}